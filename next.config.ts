@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loaded by Node at runtime rather than bundled; ws has optional native add-ons
+  serverExternalPackages: ["ws"],
 };
 
 export default nextConfig;
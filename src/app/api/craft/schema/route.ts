@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { CraftClient } from '@/lib/craft';
+import { CraftConfig } from '@/types/craft';
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const config = body as CraftConfig;
+
+        if (!config.linkId || !config.targetCollectionId) {
+            return NextResponse.json(
+                { error: 'Missing Craft Link ID or collection' },
+                { status: 400 }
+            );
+        }
+
+        const client = new CraftClient({
+            linkId: config.linkId,
+            parentDocumentId: config.parentDocumentId || 'dummy'
+        });
+
+        const properties = await client.getCollectionProperties(config.targetCollectionId);
+
+        return NextResponse.json(properties);
+    } catch (error) {
+        console.error('Craft schema fetch error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch collection schema' },
+            { status: 500 }
+        );
+    }
+}
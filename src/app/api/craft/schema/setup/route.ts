@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { CraftClient } from '@/lib/craft';
+import { checkCollectionSchema, getExpectedProperties } from '@/lib/schema-check';
+import { CraftConfig } from '@/types/craft';
+import { FieldMapping } from '@/types/mapping';
+
+// Creates the missing properties of the target collection and returns the new check result
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const craft = body.craft as CraftConfig;
+        const mapping = body.mapping as FieldMapping[] | undefined;
+
+        if (!craft?.linkId || !craft.targetCollectionId) {
+            return NextResponse.json(
+                { error: 'Missing Craft Link ID or collection' },
+                { status: 400 }
+            );
+        }
+
+        const client = new CraftClient(craft);
+        const expected = getExpectedProperties(mapping);
+        const before = checkCollectionSchema(await client.getCollectionProperties(craft.targetCollectionId), expected);
+
+        // Wrong-typed properties hold the user's data, so they are reported but never replaced
+        const missing = before.issues
+            .filter((issue) => issue.problem === 'missing' && !issue.similar)
+            .map((issue) => expected.find((prop) => prop.name === issue.property)!);
+        const created = await client.addCollectionProperties(
+            craft.targetCollectionId,
+            missing.map(({ name, type, options }) => ({ name, type, options }))
+        );
+
+        const after = checkCollectionSchema(await client.getCollectionProperties(craft.targetCollectionId), expected);
+        return NextResponse.json({ created: created.map((prop) => prop.name), schema: after });
+    } catch (error) {
+        console.error('Craft schema setup error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to create collection properties';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
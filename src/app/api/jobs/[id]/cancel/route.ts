@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getJobManager } from '@/lib/jobs';
+
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const job = getJobManager().get(id);
+    if (!job) {
+        return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+        );
+    }
+
+    job.cancel();
+    return NextResponse.json(job.info());
+}
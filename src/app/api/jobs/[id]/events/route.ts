@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getJobManager, streamJobEvents } from '@/lib/jobs';
+
+// Streams a job's events as NDJSON, from the start or from ?after=<position>, until it finishes
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const job = getJobManager().get(id);
+    if (!job) {
+        return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+        );
+    }
+
+    const after = Number(new URL(request.url).searchParams.get('after')) || 0;
+    return new NextResponse(streamJobEvents(job, after, request.signal));
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getJobManager } from '@/lib/jobs';
+import { SyncJobPoll } from '@/types/job';
+
+// Polls a job: its status and the events after ?after=<position>
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const job = getJobManager().get(id);
+    if (!job) {
+        return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+        );
+    }
+
+    const after = Number(new URL(request.url).searchParams.get('after')) || 0;
+    const poll: SyncJobPoll = { ...job.info(), events: job.eventsAfter(after) };
+    return NextResponse.json(poll);
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getJobManager, JobConflictError } from '@/lib/jobs';
+import { JobRequest } from '@/types/job';
+import { SyncConfig } from '@/types/sync';
+
+// Jobs of this server process, newest first; the page reattaches to a running one after a reload
+export async function GET() {
+    return NextResponse.json(getJobManager().list().map((job) => job.info()));
+}
+
+// Starts a sync job and returns right away; follow it at /api/jobs/<id>/events or poll /api/jobs/<id>
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const { config, maxItems = 10, backfill = false, dryRun = false, itemKeys, files, restart = false } = body;
+
+        if (!config?.zotero || !config?.craft) {
+            return NextResponse.json(
+                { error: 'Missing config' },
+                { status: 400 }
+            );
+        }
+
+        const jobRequest: JobRequest = {
+            maxItems,
+            backfill,
+            dryRun,
+            itemKeys,
+            files: Array.isArray(files) && files.length > 0 ? files : undefined,
+            restart,
+        };
+        const job = getJobManager().start(config as SyncConfig, jobRequest, 'manual');
+        return NextResponse.json(job.info(), { status: 202 });
+    } catch (error: unknown) {
+        if (error instanceof JobConflictError) {
+            return NextResponse.json(
+                { error: error.message, job: error.running.info() },
+                { status: 409 }
+            );
+        }
+        console.error('Job start error:', error);
+        return NextResponse.json(
+            { error: 'Failed to start sync job' },
+            { status: 500 }
+        );
+    }
+}
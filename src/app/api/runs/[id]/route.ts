@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getRun } from '@/lib/run-history';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params;
+        const run = await getRun(id);
+        if (!run) {
+            return NextResponse.json(
+                { error: 'Run not found' },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json(run);
+    } catch (error: unknown) {
+        console.error('Run fetch error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch run' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { listRuns } from '@/lib/run-history';
+
+export async function GET() {
+    try {
+        return NextResponse.json(await listRuns());
+    } catch (error: unknown) {
+        console.error('Run history fetch error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch run history' },
+            { status: 500 }
+        );
+    }
+}
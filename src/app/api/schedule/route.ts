@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getScheduler, ScheduleValidationError } from '@/lib/scheduler';
+import { ScheduleConfig, SyncConfig } from '@/types/sync';
+
+export async function GET() {
+    try {
+        const scheduler = getScheduler();
+        await scheduler.start();
+        return NextResponse.json(scheduler.getStatus());
+    } catch (error: unknown) {
+        console.error('Schedule fetch error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch schedule' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const { schedule, config } = body as { schedule: ScheduleConfig; config?: SyncConfig };
+
+        if (!schedule) {
+            return NextResponse.json(
+                { error: 'Missing schedule' },
+                { status: 400 }
+            );
+        }
+
+        const status = await getScheduler().update(schedule, config);
+        return NextResponse.json(status);
+    } catch (error: unknown) {
+        if (error instanceof ScheduleValidationError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 400 }
+            );
+        }
+        console.error('Schedule update error:', error);
+        const message = error instanceof Error ? error.message : 'Failed to update schedule';
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
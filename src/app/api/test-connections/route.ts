@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { ZoteroClient } from '@/lib/zotero';
 import { CraftClient } from '@/lib/craft';
+import { checkCollectionSchema, getExpectedProperties } from '@/lib/schema-check';
+import { SchemaCheckResult } from '@/types/craft';
 
 export async function POST(request: Request) {
     try {
@@ -9,7 +11,7 @@ export async function POST(request: Request) {
         const config = body.config || body;
         const { zotero, craft } = config;
 
-        const result = {
+        const result: { zotero: boolean; craft: boolean; schema?: SchemaCheckResult } = {
             zotero: false,
             craft: false,
         };
@@ -31,6 +33,17 @@ export async function POST(request: Request) {
             // Try to fetch collections - this validates API key
             await craftClient.getCollections();
             result.craft = true;
+
+            // Check the target collection has the properties the sync writes to
+            if (craft.targetCollectionId) {
+                try {
+                    const properties = await craftClient.getCollectionProperties(craft.targetCollectionId);
+                    result.schema = checkCollectionSchema(properties, getExpectedProperties(config.mapping));
+                } catch (e: unknown) {
+                    const message = e instanceof Error ? e.message : String(e);
+                    result.schema = { ok: false, issues: [], error: message };
+                }
+            }
         } catch (e: any) {
             console.error('Craft test failed:', e.message);
             result.craft = false;
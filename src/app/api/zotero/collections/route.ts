@@ -7,7 +7,7 @@ export async function POST(request: Request) {
         const body = await request.json();
         const config = body as ZoteroConfig;
 
-        if (!config.userId || !config.apiKey) {
+        if (!ZoteroClient.isConfigured(config)) {
             return NextResponse.json(
                 { error: 'Missing Zotero credentials' },
                 { status: 400 }
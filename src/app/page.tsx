@@ -2,7 +2,26 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { ZoteroConfig, ZoteroCollection } from '@/types/zotero';
-import { CraftConfig, CraftCollection } from '@/types/craft';
+import { CraftConfig, CraftCollection, CraftProperty, SchemaCheckResult } from '@/types/craft';
+import { FieldMapping } from '@/types/mapping';
+import { DEFAULT_FIELD_MAPPINGS } from '@/lib/mapping';
+import { ZoteroClient, ZOTERO_LOCAL_API_BASE } from '@/lib/zotero';
+import FieldMappingEditor from '@/components/FieldMappingEditor';
+import NoteTemplateEditor from '@/components/NoteTemplateEditor';
+import SyncPreviewTable from '@/components/SyncPreviewTable';
+import SchemaCheckReport from '@/components/SchemaCheckReport';
+import SyncSummaryCard from '@/components/SyncSummaryCard';
+import RunHistory from '@/components/RunHistory';
+import { categorizeError, eventLabel, isItemEvent, messageEvent, parseSyncEvent } from '@/lib/sync-events';
+import { DEFAULT_NOTE_TEMPLATES } from '@/lib/note-template';
+import { CITATION_STYLES, DEFAULT_CITATION_SETTINGS } from '@/lib/citation';
+import { CitationSettings, CitationStyle } from '@/types/citation';
+import { NoteTemplates } from '@/types/template';
+import { ImportFile } from '@/types/import';
+import { RunRecord, RunSummary } from '@/types/history';
+import { JobRequest, SyncJobInfo } from '@/types/job';
+import { DEFAULT_DESTINATION_CONFIG, DestinationConfig } from '@/types/destination';
+import { DEFAULT_SYNC_SETTINGS, ItemEvent, PushStatus, RunFinishedEvent, ScheduleStatus, SyncEvent, SyncProgress, SyncSettings } from '@/types/sync';
 
 // Simple Button Component for consistency
 const Button = ({ children, disabled, onClick, variant = 'primary', className = '' }: any) => (
@@ -20,36 +39,65 @@ const Button = ({ children, disabled, onClick, variant = 'primary', className =
   </button>
 );
 
+const PUSH_STATE_LABELS: Record<PushStatus['state'], string> = {
+  connecting: 'Connecting',
+  connected: 'Listening',
+  reconnecting: 'Reconnecting',
+  unavailable: 'Unavailable',
+};
+
 export default function Home() {
   const [config, setConfig] = useState<{
     zotero: ZoteroConfig;
     craft: CraftConfig;
-    autoSync?: { enabled: boolean; intervalMinutes: number };
+    destination?: DestinationConfig;
+    autoSync?: { enabled: boolean; intervalMinutes: number; push?: boolean };
+    sync?: SyncSettings;
+    mapping?: FieldMapping[];
+    templates?: NoteTemplates;
+    citation?: CitationSettings;
   }>({
     zotero: { apiKey: '', userId: '', collectionId: '' },
     craft: { linkId: '', apiKey: '', spaceId: '', parentDocumentId: '', targetCollectionId: '' },
+    destination: DEFAULT_DESTINATION_CONFIG,
     autoSync: { enabled: false, intervalMinutes: 60 },
+    sync: DEFAULT_SYNC_SETTINGS,
+    mapping: DEFAULT_FIELD_MAPPINGS,
+    templates: DEFAULT_NOTE_TEMPLATES,
+    citation: DEFAULT_CITATION_SETTINGS,
   });
 
   const [loaded, setLoaded] = useState(false); // Track if config is loaded from storage
 
   // State Definitions
-  const [logs, setLogs] = useState<Array<{ title: string; status: string; details?: string }>>([]);
+  const [logs, setLogs] = useState<SyncEvent[]>([]);
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const [lastRun, setLastRun] = useState<RunFinishedEvent | null>(null); // Summary of the last run
+  const [runs, setRuns] = useState<RunSummary[]>([]); // Run history kept by the server
+  const [openRun, setOpenRun] = useState<RunRecord | null>(null);
+  // Result of the last dry run, reviewed before a real run of the approved items
+  const [preview, setPreview] = useState<{ request: JobRequest; items: ItemEvent[] } | null>(null);
+  const [importFiles, setImportFiles] = useState<ImportFile[]>([]);
+  const [approved, setApproved] = useState<Set<string>>(new Set());
   const [syncing, setSyncing] = useState(false);
   const [testing, setTesting] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [testResult, setTestResult] = useState<{ zotero: boolean; craft: boolean } | null>(null);
+  const [testResult, setTestResult] = useState<{ zotero: boolean; craft: boolean; schema?: SchemaCheckResult } | null>(null);
+  const [creatingProperties, setCreatingProperties] = useState(false);
 
   const [zoteroCollections, setZoteroCollections] = useState<ZoteroCollection[]>([]);
   const [zoteroGroupCollections, setZoteroGroupCollections] = useState<{ groupId: string; groupName: string; collections: ZoteroCollection[] }[]>([]);
   const [craftCollections, setCraftCollections] = useState<CraftCollection[]>([]);
   const [loadingZoteroCols, setLoadingZoteroCols] = useState(false);
   const [loadingCraftCols, setLoadingCraftCols] = useState(false);
+  const [craftProperties, setCraftProperties] = useState<CraftProperty[]>([]);
+  const [loadingSchema, setLoadingSchema] = useState(false);
 
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
-  const [nextSyncTime, setNextSyncTime] = useState<Date | null>(null);
+  const [scheduleStatus, setScheduleStatus] = useState<ScheduleStatus | null>(null);
 
-  // Abort controller ref to cancel sync
+  // The sync job shown in the log, and the controller that stops following its events
+  const jobIdRef = useRef<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
@@ -79,7 +127,7 @@ export default function Home() {
 
   // Fetch Zotero Collections (User + Groups)
   const fetchZoteroCollections = useCallback(async () => {
-    if (!config.zotero.userId || !config.zotero.apiKey) return;
+    if (!ZoteroClient.isConfigured(config.zotero)) return;
     setLoadingZoteroCols(true);
     try {
       // Fetch user collections
@@ -111,7 +159,7 @@ export default function Home() {
     } finally {
       setLoadingZoteroCols(false);
     }
-  }, [config.zotero.userId, config.zotero.apiKey]); // Only depend on credentials
+  }, [config.zotero.userId, config.zotero.apiKey, config.zotero.source]); // Only depend on the connection
 
   // Fetch Craft Collections
   const fetchCraftCollections = useCallback(async () => {
@@ -134,6 +182,55 @@ export default function Home() {
     }
   }, [config.craft.linkId]);
 
+  // Fetch the target collection's properties for the field mapping editor
+  const { linkId: craftLinkId, targetCollectionId: craftCollectionId } = config.craft;
+  const fetchCraftSchema = useCallback(async () => {
+    if (!craftLinkId || !craftCollectionId) {
+      setCraftProperties([]);
+      return;
+    }
+    setLoadingSchema(true);
+    try {
+      const res = await fetch('/api/craft/schema', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ linkId: craftLinkId, targetCollectionId: craftCollectionId }),
+      });
+      setCraftProperties(res.ok ? await res.json() : []);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setLoadingSchema(false);
+    }
+  }, [craftLinkId, craftCollectionId]);
+
+  // Reload the properties whenever the target collection changes
+  useEffect(() => {
+    if (loaded) fetchCraftSchema();
+  }, [loaded, fetchCraftSchema]);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const res = await fetch('/api/runs');
+      if (res.ok) setRuns(await res.json());
+    } catch (e) {
+      console.error('Failed to fetch run history', e);
+    }
+  }, []);
+
+  const openRunDetails = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/runs/${id}`);
+      if (res.ok) setOpenRun(await res.json());
+    } catch (e) {
+      console.error('Failed to fetch run', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
   const testConnections = useCallback(async () => {
     setTesting(true);
     setTestResult(null);
@@ -150,40 +247,68 @@ export default function Home() {
     }
   }, [config]);
 
-  // Cancel sync function
-  const stopSync = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
-      setSyncing(false);
-      setLogs((prev) => [{ title: 'Sync Stopped', status: 'warning', details: 'User cancelled the operation' }, ...prev]);
+  // Create the properties the schema check found missing, then show the new result
+  const createMissingProperties = useCallback(async () => {
+    setCreatingProperties(true);
+    try {
+      const res = await fetch('/api/craft/schema/setup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ craft: config.craft, mapping: config.mapping }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || res.statusText);
+
+      setTestResult((prev) => prev && { ...prev, schema: data.schema });
+      setLogs((prev) => [
+        messageEvent('info', data.created.length > 0 ? `Craft setup: created properties ${data.created.join(', ')}` : 'Craft setup: no properties needed to be created'),
+        ...prev,
+      ]);
+      fetchCraftSchema();
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      setLogs((prev) => [messageEvent('error', `Craft setup failed: ${message}`, categorizeError(e)), ...prev]);
+    } finally {
+      setCreatingProperties(false);
+    }
+  }, [config.craft, config.mapping, fetchCraftSchema]);
+
+  // Cancel the job on the server; its event stream ends once the run has stopped
+  const stopSync = useCallback(async () => {
+    const jobId = jobIdRef.current;
+    if (!jobId) return;
+    setLogs((prev) => [messageEvent('warning', 'Cancelling: the sync stops after the current item'), ...prev]);
+    try {
+      await fetch(`/api/jobs/${jobId}/cancel`, { method: 'POST' });
+    } catch (e) {
+      console.error('Failed to cancel sync', e);
     }
   }, []);
 
-  // Wrapped in useCallback to be stable for useEffect
-  const syncNow = useCallback(async () => {
-    if (syncing) return;
+  const selectImportFiles = async (fileList: FileList | null) => {
+    const files = await Promise.all(
+      Array.from(fileList || []).map(async (file) => ({ name: file.name, content: await file.text() }))
+    );
+    setImportFiles(files);
+  };
 
-    // Create new abort controller
+  // Streams a job's events into the log until it finishes. Used for new jobs and to
+  // reattach to a running one after a reload (the server replays its events from the start).
+  const followJob = useCallback(async (jobId: string, request: JobRequest, notice?: string) => {
+    abortControllerRef.current?.abort();
     const controller = new AbortController();
     abortControllerRef.current = controller;
+    jobIdRef.current = jobId;
 
     setSyncing(true);
-    setLogs([]); // Clear logs
+    setLogs(notice ? [messageEvent('warning', notice)] : []); // Clear logs
+    setProgress(null);
+    setLastRun(null);
+    setPreview(request.dryRun ? { request, items: [] } : null);
+    setApproved(new Set());
 
     try {
-      const res = await fetch('/api/sync-now', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          config,
-          maxItems: 50, // Process more items
-        }),
-        signal: controller.signal,
-      });
-
+      const res = await fetch(`/api/jobs/${jobId}/events`, { signal: controller.signal });
       if (!res.ok) throw new Error(res.statusText);
 
       // Handle streaming response
@@ -210,8 +335,22 @@ export default function Home() {
         for (const line of lines) {
           if (!line.trim()) continue;
           try {
-            const logEntry = JSON.parse(line);
-            setLogs((prev) => [logEntry, ...prev]);
+            const event = parseSyncEvent(line);
+            if (event.type === 'run-started') continue;
+            if (event.type === 'run-finished') {
+              setLastRun(event);
+              fetchRuns();
+              continue;
+            }
+            if (event.progress) setProgress(event.progress);
+            if (isItemEvent(event) && event.dryRun) {
+              setPreview((prev) => prev && { ...prev, items: [...prev.items, event] });
+              // Everything that would be written starts out approved
+              if (event.type === 'item-created' || event.type === 'item-updated') {
+                setApproved((prev) => new Set(prev).add(event.itemKey));
+              }
+            }
+            setLogs((prev) => [event, ...prev]);
           } catch (e) {
             console.error('Error parsing stream line:', line, e);
           }
@@ -220,55 +359,130 @@ export default function Home() {
 
     } catch (e: any) {
       if (e.name === 'AbortError') {
-        console.log('Sync aborted');
+        console.log('Stopped following sync job');
       } else {
         console.error('Sync failed:', e);
-        setLogs((prev) => [{ title: 'Sync Failure', status: 'error', details: e.message }, ...prev]);
+        setLogs((prev) => [messageEvent('error', `Sync failure: ${e.message}`, categorizeError(e)), ...prev]);
       }
     } finally {
       if (abortControllerRef.current === controller) {
         setSyncing(false);
         setLastSyncTime(new Date());
         abortControllerRef.current = null;
+        jobIdRef.current = null;
       }
     }
-  }, [config, syncing]); // Re-create when config changes
+  }, [fetchRuns]);
+
+  // Wrapped in useCallback to be stable for useEffect
+  const syncNow = useCallback(async (request: JobRequest = {}) => {
+    if (syncing) return;
+
+    try {
+      const res = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          config,
+          maxItems: 50, // Process more items
+          ...request,
+        }),
+      });
+      const data = await res.json();
+
+      if (res.status === 409 && data.job) {
+        // Another tab or the scheduler is writing to this destination; show that run instead
+        await followJob(data.job.id, data.job.request, 'Another sync is already running for this destination, showing its progress');
+        return;
+      }
+      if (!res.ok) throw new Error(data.error || res.statusText);
+
+      await followJob(data.id, data.request);
+    } catch (e: unknown) {
+      console.error('Sync failed:', e);
+      const message = e instanceof Error ? e.message : String(e);
+      setLogs((prev) => [messageEvent('error', `Sync failure: ${message}`, categorizeError(e)), ...prev]);
+    }
+  }, [config, syncing, followJob]); // Re-create when config changes
+
+  // Reattach to a job that is still running, e.g. after a reload or one started by Auto-Sync
+  useEffect(() => {
+    if (!loaded) return;
 
-  // Auto-Sync Polling Logic (Stable Interval)
-  const savedSyncNow = useRef(syncNow);
+    (async () => {
+      try {
+        const res = await fetch('/api/jobs');
+        if (!res.ok) return;
+        const jobs: SyncJobInfo[] = await res.json();
+        const running = jobs.find((job) => job.state !== 'finished');
+        if (running) followJob(running.id, running.request);
+      } catch (e) {
+        console.error('Failed to fetch sync jobs', e);
+      }
+    })();
+  }, [loaded, followJob]);
 
-  // Keep ref updated with latest syncNow function
+  // Auto-Sync runs on the server; push the schedule there whenever it changes, and the config
+  // (with its API keys) only while Auto-Sync is on. Turning it off clears the config on the server.
   useEffect(() => {
-    savedSyncNow.current = syncNow;
-  }, [syncNow]);
+    if (!loaded) return;
+
+    const enabled = config.autoSync?.enabled || false;
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch('/api/schedule', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            schedule: {
+              enabled,
+              intervalMinutes: config.autoSync?.intervalMinutes || 60,
+              push: config.autoSync?.push || false,
+            },
+            config: enabled
+              ? { zotero: config.zotero, craft: config.craft, destination: config.destination, sync: config.sync, mapping: config.mapping, templates: config.templates, citation: config.citation }
+              : undefined,
+          }),
+        });
+        if (res.ok) {
+          setScheduleStatus(await res.json());
+        }
+      } catch (e) {
+        console.error('Failed to update schedule', e);
+      }
+    }, 500); // Debounce typing in the connection fields
+
+    return () => clearTimeout(timeout);
+  }, [config, loaded]);
 
+  // Poll the server for the next/last scheduled run
   useEffect(() => {
-    if (config.autoSync?.enabled && config.autoSync.intervalMinutes > 0) {
-      const delay = config.autoSync.intervalMinutes * 60 * 1000;
-      console.log(`Auto-sync enabled. Next sync in ${config.autoSync.intervalMinutes} minutes.`);
+    if (!config.autoSync?.enabled) return;
 
-      setNextSyncTime(new Date(Date.now() + delay));
+    const refresh = async () => {
+      try {
+        const res = await fetch('/api/schedule');
+        if (res.ok) {
+          setScheduleStatus(await res.json());
+        }
+      } catch (e) {
+        console.error('Failed to fetch schedule', e);
+      }
+    };
 
-      const tick = () => {
-        console.log('Auto-sync tick...');
-        setLastSyncTime(new Date());
-        setNextSyncTime(new Date(Date.now() + delay));
-        savedSyncNow.current();
-      };
-
-      const id = setInterval(tick, delay);
-
-      return () => {
-        clearInterval(id);
-        setNextSyncTime(null);
-      };
-    } else {
-      setNextSyncTime(null);
-    }
-  }, [config.autoSync?.enabled, config.autoSync?.intervalMinutes]);
+    const id = setInterval(refresh, 30 * 1000);
+    return () => clearInterval(id);
+  }, [config.autoSync?.enabled]);
 
   if (!loaded) return <div className="p-10">Loading configuration...</div>;
 
+  // Craft needs its link; a markdown folder only its path
+  const destinationReady = config.destination?.type === 'markdown'
+    ? !!config.destination.folder?.trim()
+    : !!config.craft.linkId;
+
   return (
     <main className="min-h-screen bg-gray-50 p-6 md:p-12 font-sans text-gray-900">
       <div className="max-w-4xl mx-auto space-y-8">
@@ -292,21 +506,48 @@ export default function Home() {
             {/* Zotero */}
             <div className="space-y-3">
               <h3 className="text-sm font-medium text-gray-700">Zotero</h3>
-              <input
-                type="text"
-                placeholder="User ID"
-                className="w-full p-2 border rounded text-sm"
-                value={config.zotero.userId}
-                onChange={(e) => handleChange('zotero', 'userId', e.target.value)}
-              />
-              <input
-                type="password"
-                placeholder="API Key"
-                className="w-full p-2 border rounded text-sm"
-                value={config.zotero.apiKey}
-                onChange={(e) => handleChange('zotero', 'apiKey', e.target.value)}
-                onBlur={fetchZoteroCollections} // Fetch when done typing
-              />
+              <div className="flex gap-4 text-xs text-gray-600">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    checked={config.zotero.source !== 'local'}
+                    onChange={() => handleChange('zotero', 'source', 'web')}
+                  />
+                  Web API
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    checked={config.zotero.source === 'local'}
+                    onChange={() => handleChange('zotero', 'source', 'local')}
+                  />
+                  Zotero desktop (local API)
+                </label>
+              </div>
+              {config.zotero.source === 'local' ? (
+                <p className="text-xs text-gray-400">
+                  Requires Zotero 7 running, with &quot;Allow other applications on this computer to communicate with Zotero&quot; enabled in Settings → Advanced.
+                  The server reads from {ZOTERO_LOCAL_API_BASE}, or the URL in its ZOTCRAFT_ZOTERO_LOCAL_URL setting.
+                </p>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    placeholder="User ID"
+                    className="w-full p-2 border rounded text-sm"
+                    value={config.zotero.userId}
+                    onChange={(e) => handleChange('zotero', 'userId', e.target.value)}
+                  />
+                  <input
+                    type="password"
+                    placeholder="API Key"
+                    className="w-full p-2 border rounded text-sm"
+                    value={config.zotero.apiKey}
+                    onChange={(e) => handleChange('zotero', 'apiKey', e.target.value)}
+                    onBlur={fetchZoteroCollections} // Fetch when done typing
+                  />
+                </>
+              )}
 
               <div className="flex gap-2">
                 {(zoteroCollections.length > 0 || zoteroGroupCollections.length > 0) ? (
@@ -363,6 +604,52 @@ export default function Home() {
                   {loadingZoteroCols ? '...' : 'Refresh'}
                 </button>
               </div>
+
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={config.sync?.includeSubcollections || false}
+                  onChange={(e) => handleChange('sync', 'includeSubcollections', e.target.checked)}
+                />
+                Include subcollections
+              </label>
+            </div>
+
+            {/* Destination */}
+            <div className="space-y-3 pt-4 border-t">
+              <h3 className="text-sm font-medium text-gray-700">Destination</h3>
+              <div className="flex gap-4 text-xs text-gray-600">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    checked={config.destination?.type !== 'markdown'}
+                    onChange={() => handleChange('destination', 'type', 'craft')}
+                  />
+                  Craft
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    checked={config.destination?.type === 'markdown'}
+                    onChange={() => handleChange('destination', 'type', 'markdown')}
+                  />
+                  Markdown folder (e.g. Obsidian vault)
+                </label>
+              </div>
+              {config.destination?.type === 'markdown' && (
+                <div>
+                  <input
+                    type="text"
+                    placeholder="/Users/me/Vault/References"
+                    className="w-full p-2 border rounded text-sm"
+                    value={config.destination.folder || ''}
+                    onChange={(e) => handleChange('destination', 'folder', e.target.value)}
+                  />
+                  <p className="text-xs text-gray-400 mt-1">
+                    Folder on the machine running ZotCraft, inside its ZOTCRAFT_MARKDOWN_ROOT (a relative path starts there). One note per item; properties become YAML frontmatter.
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Craft */}
@@ -433,7 +720,7 @@ export default function Home() {
             {/* Auto-Sync */}
             <div className="space-y-3 pt-4 border-t">
               <div className="flex items-center justify-between">
-                <h3 className="text-sm font-medium text-gray-700">Auto-Sync (Polling)</h3>
+                <h3 className="text-sm font-medium text-gray-700">Auto-Sync (Server)</h3>
                 <label className="flex items-center gap-2 text-xs">
                   <input
                     type="checkbox"
@@ -458,12 +745,46 @@ export default function Home() {
                     <option value={60}>1 Hour</option>
                   </select>
                   <span className="text-xs text-green-600 ml-auto animate-pulse flex flex-col items-end">
-                    <span>● Active</span>
-                    {nextSyncTime && <span className="text-[10px] text-gray-400 font-normal">Next: {nextSyncTime.toLocaleTimeString()}</span>}
-                    {lastSyncTime && <span className="text-[10px] text-gray-400 font-normal">Last: {lastSyncTime.toLocaleTimeString()}</span>}
+                    <span>● {scheduleStatus?.running ? 'Running' : 'Active'}</span>
+                    {scheduleStatus?.nextRunAt && <span className="text-[10px] text-gray-400 font-normal">Next: {new Date(scheduleStatus.nextRunAt).toLocaleTimeString()}</span>}
+                    {scheduleStatus?.lastRunAt && (
+                      <span className="text-[10px] text-gray-400 font-normal" title={scheduleStatus.lastRunDetails}>
+                        Last: {new Date(scheduleStatus.lastRunAt).toLocaleTimeString()} ({scheduleStatus.lastRunStatus})
+                      </span>
+                    )}
+                    {lastSyncTime && <span className="text-[10px] text-gray-400 font-normal">Manual: {lastSyncTime.toLocaleTimeString()}</span>}
                   </span>
                 </div>
               )}
+              {config.autoSync?.enabled && (
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={config.autoSync.push || false}
+                      onChange={(e) => handleChange('autoSync', 'push', e.target.checked)}
+                    />
+                    Also sync when Zotero changes (push)
+                  </label>
+                  {config.autoSync.push && scheduleStatus?.push && (
+                    <span
+                      className={`text-xs ml-auto flex flex-col items-end ${scheduleStatus.push.state === 'connected' ? 'text-green-600' : scheduleStatus.push.state === 'unavailable' ? 'text-red-600' : 'text-yellow-600'}`}
+                      title={scheduleStatus.push.details}
+                    >
+                      <span>● {PUSH_STATE_LABELS[scheduleStatus.push.state]}</span>
+                      {scheduleStatus.push.state === 'unavailable' && scheduleStatus.push.details && (
+                        <span className="text-[10px] text-gray-400 font-normal">{scheduleStatus.push.details}</span>
+                      )}
+                      {scheduleStatus.push.state === 'reconnecting' && scheduleStatus.push.nextRetryAt && (
+                        <span className="text-[10px] text-gray-400 font-normal">Retry: {new Date(scheduleStatus.push.nextRetryAt).toLocaleTimeString()}</span>
+                      )}
+                      {scheduleStatus.push.lastEventAt && (
+                        <span className="text-[10px] text-gray-400 font-normal">Last change: {new Date(scheduleStatus.push.lastEventAt).toLocaleTimeString()}</span>
+                      )}
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -476,7 +797,7 @@ export default function Home() {
                   <Button
                     onClick={testConnections}
                     variant="outline"
-                    disabled={testing || syncing || !config.zotero.apiKey || !config.craft.linkId}
+                    disabled={testing || syncing || !ZoteroClient.isConfigured(config.zotero) || !config.craft.linkId}
                   >
                     {testing ? 'Testing...' : 'Test Connections'}
                   </Button>
@@ -489,12 +810,123 @@ export default function Home() {
                       Stop Sync
                     </Button>
                   ) : (
-                    <Button
-                      onClick={syncNow}
-                      disabled={testing || !config.zotero.apiKey || !config.craft.linkId}
-                    >
-                      Sync Now
-                    </Button>
+                    <>
+                      <Button
+                        onClick={() => syncNow()}
+                        disabled={testing || !ZoteroClient.isConfigured(config.zotero) || !destinationReady}
+                      >
+                        Sync Now
+                      </Button>
+                      <Button
+                        onClick={() => syncNow({ backfill: true })}
+                        variant="outline"
+                        disabled={testing || !ZoteroClient.isConfigured(config.zotero) || !destinationReady}
+                      >
+                        Backfill Entire Collection
+                      </Button>
+                      <Button
+                        onClick={() => syncNow({ dryRun: true })}
+                        variant="outline"
+                        disabled={testing || !ZoteroClient.isConfigured(config.zotero) || !destinationReady}
+                      >
+                        Preview
+                      </Button>
+                    </>
+                  )}
+                </div>
+
+                {!syncing && lastRun && <SyncSummaryCard run={lastRun} />}
+
+                {syncing && progress && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>Progress</span>
+                      <span>{progress.done}/{progress.total}</span>
+                    </div>
+                    <div className="h-1.5 bg-gray-100 rounded">
+                      <div
+                        className="h-1.5 bg-blue-600 rounded transition-all"
+                        style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={config.sync?.updateExisting ?? true}
+                    onChange={(e) => handleChange('sync', 'updateExisting', e.target.checked)}
+                  />
+                  Update existing Craft items when Zotero metadata changes
+                </label>
+
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={config.sync?.importChildren ?? true}
+                    onChange={(e) => handleChange('sync', 'importChildren', e.target.checked)}
+                  />
+                  Import Zotero notes and PDF highlights
+                </label>
+
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={config.sync?.createMissingOptions ?? false}
+                    onChange={(e) => handleChange('sync', 'createMissingOptions', e.target.checked)}
+                  />
+                  Add missing select options to the Craft collection
+                </label>
+
+                {config.sync?.createMissingOptions && (
+                  <div className="flex flex-wrap items-center gap-2 pl-5 text-xs text-gray-600">
+                    <input
+                      key={(config.sync.optionProperties || []).join(', ')}
+                      type="text"
+                      className="flex-1 min-w-[160px] p-1 border rounded"
+                      placeholder="Properties, e.g. Tags, Publication type"
+                      defaultValue={(config.sync.optionProperties || []).join(', ')}
+                      onBlur={(e) => handleChange('sync', 'optionProperties', e.target.value.split(',').map((name) => name.trim()).filter(Boolean))}
+                    />
+                    <span>max</span>
+                    <input
+                      type="number"
+                      min={1}
+                      className="w-16 p-1 border rounded"
+                      value={config.sync.maxNewOptions ?? DEFAULT_SYNC_SETTINGS.maxNewOptions}
+                      onChange={(e) => handleChange('sync', 'maxNewOptions', Math.max(1, parseInt(e.target.value, 10) || 1))}
+                    />
+                    <span>per run</span>
+                  </div>
+                )}
+
+                <div className="space-y-2 pt-4 border-t">
+                  <h3 className="text-sm font-medium text-gray-700">Import from File</h3>
+                  <input
+                    type="file"
+                    multiple
+                    accept=".bib,.bibtex,.ris,.json"
+                    className="block w-full text-xs text-gray-600"
+                    onChange={(e) => selectImportFiles(e.target.files)}
+                  />
+                  <p className="text-xs text-gray-400">BibTeX, RIS or CSL-JSON. Entries go through the same matching and mapping as Zotero items.</p>
+                  {importFiles.length > 0 && !syncing && (
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => syncNow({ files: importFiles })}
+                        disabled={testing || !destinationReady}
+                      >
+                        Import {importFiles.length} File{importFiles.length === 1 ? '' : 's'}
+                      </Button>
+                      <Button
+                        onClick={() => syncNow({ files: importFiles, dryRun: true })}
+                        variant="outline"
+                        disabled={testing || !destinationReady}
+                      >
+                        Preview Import
+                      </Button>
+                    </div>
                   )}
                 </div>
 
@@ -512,6 +944,14 @@ export default function Home() {
                     )}
                   </div>
                 )}
+
+                {testResult?.schema && (
+                  <SchemaCheckReport
+                    result={testResult.schema}
+                    creating={creatingProperties}
+                    onCreateMissing={createMissingProperties}
+                  />
+                )}
               </div>
             </div>
 
@@ -526,16 +966,26 @@ export default function Home() {
                     <div key={i} className="flex items-start gap-2 border-b border-gray-100 pb-2 last:border-0 last:pb-0">
                       <span className={`
                         text-[10px] uppercase font-bold px-1.5 py-0.5 rounded mt-0.5
-                        ${log.status === 'created' ? 'bg-green-100 text-green-700' : ''}
-                        ${log.status === 'error' ? 'bg-red-100 text-red-700' : ''}
-                        ${log.status === 'skipped' ? 'bg-gray-100 text-gray-600' : ''}
+                        ${log.type === 'item-created' ? 'bg-green-100 text-green-700' : ''}
+                        ${log.type === 'item-updated' ? 'bg-blue-100 text-blue-700' : ''}
+                        ${log.type === 'item-failed' || log.type === 'error' ? 'bg-red-100 text-red-700' : ''}
+                        ${log.type === 'warning' ? 'bg-yellow-100 text-yellow-800' : ''}
+                        ${log.type === 'item-skipped' ? 'bg-gray-100 text-gray-600' : ''}
+                        ${isItemEvent(log) && log.dryRun ? 'bg-yellow-50 text-yellow-700' : ''}
                       `}>
-                        {log.status}
+                        {eventLabel(log)}
                       </span>
-                      <div className="flex-1">
-                        <p className="font-medium text-gray-800">{log.title}</p>
-                        {log.details && <p className="text-gray-500 text-xs mt-0.5">{log.details}</p>}
-                      </div>
+                      {isItemEvent(log) ? (
+                        <div className="flex-1">
+                          <p className="font-medium text-gray-800">{log.title}</p>
+                          {log.details && <p className="text-gray-500 text-xs mt-0.5">{log.details}</p>}
+                        </div>
+                      ) : (
+                        <div className="flex-1">
+                          <p className="font-medium text-gray-800">System</p>
+                          {'message' in log && <p className="text-gray-500 text-xs mt-0.5">{log.message}</p>}
+                        </div>
+                      )}
                     </div>
                   ))
                 )}
@@ -543,6 +993,111 @@ export default function Home() {
             </div>
           </div>
         </div>
+
+        {/* Dry-run Preview */}
+        {preview && (
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <h2 className="text-lg font-semibold">Preview</h2>
+              <div className="flex gap-2">
+                <Button onClick={() => setPreview(null)} variant="outline" disabled={syncing}>
+                  Discard
+                </Button>
+                <Button
+                  onClick={() => syncNow({ ...preview.request, dryRun: false, itemKeys: [...approved] })}
+                  disabled={syncing || approved.size === 0}
+                >
+                  Sync {approved.size} Approved
+                </Button>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Nothing has been written to Craft yet. Untick items to leave them for a later run.
+            </p>
+            <SyncPreviewTable items={preview.items} approved={approved} onChange={setApproved} />
+          </div>
+        )}
+
+        {/* Run History */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Run History</h2>
+            <button
+              onClick={fetchRuns}
+              className="px-2 py-1 bg-gray-100 rounded hover:bg-gray-200 text-xs whitespace-nowrap"
+            >
+              Refresh
+            </button>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            <RunHistory runs={runs} selected={openRun} onOpen={openRunDetails} onClose={() => setOpenRun(null)} />
+          </div>
+        </div>
+
+        {/* Field Mapping */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Field Mapping</h2>
+            <button
+              onClick={fetchCraftSchema}
+              className="px-2 py-1 bg-gray-100 rounded hover:bg-gray-200 text-xs whitespace-nowrap"
+              disabled={loadingSchema}
+            >
+              {loadingSchema ? '...' : 'Refresh Properties'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Choose which Zotero field fills each Craft property. Aliases map Zotero values to the names of select options.
+          </p>
+          <FieldMappingEditor
+            mappings={config.mapping || DEFAULT_FIELD_MAPPINGS}
+            properties={craftProperties}
+            loading={loadingSchema}
+            onChange={(mapping) => setConfig((prev) => ({ ...prev, mapping }))}
+          />
+        </div>
+
+        {/* Note Template */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+          <h2 className="text-lg font-semibold">Note Template</h2>
+          <p className="text-xs text-gray-500">
+            The body of new Craft notes. Keep the <code>**Label:** value</code> lines and the Quotes and Notes headings so updates can patch the metadata and append new highlights.
+          </p>
+          <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+            <label className="flex items-center gap-2">
+              Citation style
+              <select
+                className="p-1 border rounded bg-white"
+                value={config.citation?.style || DEFAULT_CITATION_SETTINGS.style}
+                onChange={(e) => setConfig((prev) => ({
+                  ...prev,
+                  citation: { ...DEFAULT_CITATION_SETTINGS, ...prev.citation, style: e.target.value as CitationStyle },
+                }))}
+              >
+                {CITATION_STYLES.map((style) => (
+                  <option key={style.id} value={style.id}>{style.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={config.citation?.source === 'zotero'}
+                onChange={(e) => setConfig((prev) => ({
+                  ...prev,
+                  citation: { ...DEFAULT_CITATION_SETTINGS, ...prev.citation, source: e.target.checked ? 'zotero' : 'local' },
+                }))}
+              />
+              Use Zotero&apos;s formatted output (one extra request per item)
+            </label>
+          </div>
+          <NoteTemplateEditor
+            templates={config.templates || DEFAULT_NOTE_TEMPLATES}
+            importChildren={config.sync?.importChildren ?? true}
+            citationStyle={config.citation?.style || DEFAULT_CITATION_SETTINGS.style}
+            onChange={(templates) => setConfig((prev) => ({ ...prev, templates }))}
+          />
+        </div>
       </div>
     </main>
   );
@@ -0,0 +1,182 @@
+// Runs a sync from the command line, for scripts and cron:
+//
+//   npm run sync -- --config zotcraft.json [--dry-run] [--max-items 50] [--collection KEY] [--ndjson]
+//
+// The config file has the app's saved settings format (AppConfig in useConfig.ts).
+// Exits with 1 if anything failed, 2 on bad arguments or config, 130 when interrupted.
+
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { runSync } from '@/lib/sync';
+import { markInterruptedRuns } from '@/lib/run-history';
+import { eventLabel, formatDuration } from '@/lib/sync-events';
+import type { AppConfig } from '@/hooks/useConfig';
+import { RunFinishedEvent, SyncEvent } from '@/types/sync';
+
+const DEFAULT_CONFIG_FILE = 'zotcraft.json';
+const DEFAULT_MAX_ITEMS = 50;
+
+const USAGE = `Usage: npm run sync -- [options]
+
+Options:
+  -c, --config <file>     Config file (default: ${DEFAULT_CONFIG_FILE})
+  -n, --dry-run           Report what would be written without writing anything
+  -m, --max-items <n>     Items to process in this run (default: ${DEFAULT_MAX_ITEMS})
+      --collection <key>  Zotero collection to sync instead of the configured one
+      --backfill          Go through the entire collection instead of recent changes
+      --restart           Start over instead of resuming an interrupted run
+      --ndjson            Print every sync event as a JSON line (see SyncEvent in src/types/sync.ts)
+  -h, --help              Show this help`;
+
+class UsageError extends Error {}
+
+function parseOptions(argv: string[]) {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            options: {
+                'config': { type: 'string', short: 'c', default: DEFAULT_CONFIG_FILE },
+                'dry-run': { type: 'boolean', short: 'n', default: false },
+                'max-items': { type: 'string', short: 'm' },
+                'collection': { type: 'string' },
+                'backfill': { type: 'boolean', default: false },
+                'restart': { type: 'boolean', default: false },
+                'ndjson': { type: 'boolean', default: false },
+                'help': { type: 'boolean', short: 'h', default: false },
+            },
+        });
+    } catch (e: unknown) {
+        throw new UsageError(e instanceof Error ? e.message : String(e));
+    }
+
+    const { values } = parsed;
+    const maxItems = values['max-items'] === undefined ? DEFAULT_MAX_ITEMS : Number(values['max-items']);
+    if (!Number.isInteger(maxItems) || maxItems < 1) {
+        throw new UsageError(`--max-items must be a positive integer, got '${values['max-items']}'`);
+    }
+
+    return {
+        configFile: values.config,
+        dryRun: values['dry-run'],
+        maxItems,
+        collection: values.collection,
+        backfill: values.backfill,
+        restart: values.restart,
+        ndjson: values.ndjson,
+        help: values.help,
+    };
+}
+
+async function readConfig(file: string): Promise<AppConfig> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(file, 'utf-8');
+    } catch (e: unknown) {
+        throw new UsageError(`Cannot read config file '${file}': ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    let config: AppConfig;
+    try {
+        config = JSON.parse(raw);
+    } catch (e: unknown) {
+        throw new UsageError(`Config file '${file}' is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!config?.zotero || !config?.craft) {
+        throw new UsageError(`Config file '${file}' needs 'zotero' and 'craft' sections`);
+    }
+    return config;
+}
+
+// One line per event: "[12/50] created      Title - details" for items, "info: message" for the rest
+function formatEvent(event: Exclude<SyncEvent, RunFinishedEvent>): string {
+    switch (event.type) {
+        case 'run-started':
+            return `Sync started${event.dryRun ? ' (dry run)' : ''}`;
+        case 'info':
+        case 'warning':
+        case 'error':
+            return `${event.type}: ${event.message}`;
+        default:
+            return `[${event.progress.done}/${event.progress.total}] ${eventLabel(event).padEnd(12)} ${event.title}${event.details ? ` - ${event.details}` : ''}`;
+    }
+}
+
+function formatSummary({ summary, dryRun, elapsedMs, outcome }: RunFinishedEvent, failed: boolean): string {
+    const counts: Array<[number, string]> = [
+        [summary.created, dryRun ? 'would create' : 'created'],
+        [summary.updated, dryRun ? 'would update' : 'updated'],
+        [summary.skipped, dryRun ? 'would skip' : 'skipped'],
+        [summary.failed, 'failed'],
+        [summary.warnings, 'warning(s)'],
+    ];
+    const parts = counts.filter(([count]) => count > 0).map(([count, label]) => `${count} ${label}`);
+    if (summary.created + summary.updated + summary.skipped + summary.failed === 0) {
+        parts.unshift(failed ? 'no items processed' : 'nothing to sync');
+    }
+    const status = outcome === 'aborted' ? 'Interrupted' : failed ? 'Finished with errors' : 'Done';
+    return `${status} in ${formatDuration(elapsedMs)}: ${parts.join(', ')}`;
+}
+
+async function main(): Promise<number> {
+    const options = parseOptions(process.argv.slice(2));
+    if (options.help) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    const config = await readConfig(options.configFile);
+    if (options.collection !== undefined) {
+        config.zotero = { ...config.zotero, collectionId: options.collection };
+    }
+
+    await markInterruptedRuns();
+
+    // Ctrl-C stops after the current item, so the checkpoint stays consistent
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+    process.once('SIGTERM', () => controller.abort());
+
+    const finished = await runSync(
+        config,
+        {
+            maxItems: options.maxItems,
+            backfill: options.backfill,
+            restart: options.restart,
+            dryRun: options.dryRun,
+            signal: controller.signal,
+            trigger: 'cli',
+            anyFolder: true,
+        },
+        (event) => {
+            if (options.ndjson) {
+                process.stdout.write(JSON.stringify(event) + '\n');
+            } else if (event.type === 'run-finished') {
+                // Printed as the summary below
+            } else if (event.type === 'error' || event.type === 'warning' || event.type === 'item-failed') {
+                console.error(formatEvent(event));
+            } else {
+                console.log(formatEvent(event));
+            }
+        }
+    );
+
+    const failed = finished.outcome === 'failed' || finished.summary.failed > 0 || finished.summary.errors > 0;
+    if (!options.ndjson) console.log(formatSummary(finished, failed));
+    if (finished.outcome === 'aborted') return 130;
+    return failed ? 1 : 0;
+}
+
+main()
+    .then((code) => {
+        process.exitCode = code;
+    })
+    .catch((error: unknown) => {
+        if (error instanceof UsageError) {
+            console.error(`${error.message}\n\n${USAGE}`);
+            process.exitCode = 2;
+            return;
+        }
+        console.error('Sync failed:', error);
+        process.exitCode = 1;
+    });
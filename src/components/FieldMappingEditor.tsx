@@ -0,0 +1,151 @@
+'use client';
+
+import { DEFAULT_FIELD_MAPPINGS, FIELD_TRANSFORMS, ZOTERO_FIELDS } from '@/lib/mapping';
+import { CraftProperty } from '@/types/craft';
+import { FieldMapping, FieldTransform } from '@/types/mapping';
+
+interface FieldMappingEditorProps {
+  mappings: FieldMapping[];
+  properties: CraftProperty[]; // Target collection schema; empty if not loaded
+  loading: boolean;
+  onChange: (mappings: FieldMapping[]) => void;
+}
+
+// Aliases are edited as "Zotero value=Craft option" pairs separated by semicolons
+function formatAliases(aliases?: Record<string, string>): string {
+  return Object.entries(aliases || {}).map(([from, to]) => `${from}=${to}`).join('; ');
+}
+
+function parseAliases(text: string): Record<string, string> | undefined {
+  const aliases: Record<string, string> = {};
+  for (const pair of text.split(';')) {
+    const [from, to] = pair.split('=').map((part) => part?.trim());
+    if (from && to) aliases[from] = to;
+  }
+  return Object.keys(aliases).length > 0 ? aliases : undefined;
+}
+
+export default function FieldMappingEditor({ mappings, properties, loading, onChange }: FieldMappingEditorProps) {
+  const update = (index: number, changes: Partial<FieldMapping>) => {
+    onChange(mappings.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)));
+  };
+
+  const remove = (index: number) => {
+    onChange(mappings.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    onChange([...mappings, { source: 'title', target: properties[0]?.name || '', transform: 'none' }]);
+  };
+
+  const propertyNames = properties.map((prop) => prop.name);
+
+  return (
+    <div className="space-y-3">
+      {!loading && properties.length === 0 && (
+        <p className="text-xs text-gray-400">Select a target collection to pick from its properties.</p>
+      )}
+
+      <div className="space-y-2">
+        {mappings.map((mapping, index) => {
+          const property = properties.find((prop) => prop.name === mapping.target);
+          const isSelect = property?.type === 'select' || property?.type === 'multiSelect';
+          const missing = properties.length > 0 && !property;
+
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-2 text-xs border-b border-gray-100 pb-2">
+              {mapping.transform === 'constant' ? (
+                <input
+                  type="text"
+                  placeholder="Value"
+                  className="w-40 p-1 border rounded"
+                  value={mapping.value || ''}
+                  onChange={(e) => update(index, { value: e.target.value })}
+                />
+              ) : (
+                <select
+                  className="w-40 p-1 border rounded bg-white"
+                  value={mapping.source}
+                  onChange={(e) => update(index, { source: e.target.value })}
+                >
+                  {ZOTERO_FIELDS.map((field) => (
+                    <option key={field.id} value={field.id}>{field.label}</option>
+                  ))}
+                </select>
+              )}
+
+              <select
+                className="p-1 border rounded bg-white"
+                value={mapping.transform}
+                onChange={(e) => update(index, { transform: e.target.value as FieldTransform })}
+              >
+                {FIELD_TRANSFORMS.map((transform) => (
+                  <option key={transform.id} value={transform.id}>{transform.label}</option>
+                ))}
+              </select>
+
+              <span className="text-gray-400">→</span>
+
+              {propertyNames.length > 0 ? (
+                <select
+                  className={`w-40 p-1 border rounded bg-white ${missing ? 'border-red-300 text-red-600' : ''}`}
+                  value={mapping.target}
+                  onChange={(e) => update(index, { target: e.target.value })}
+                >
+                  {missing && <option value={mapping.target}>{mapping.target} (missing)</option>}
+                  {propertyNames.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  placeholder="Craft property"
+                  className="w-40 p-1 border rounded"
+                  value={mapping.target}
+                  onChange={(e) => update(index, { target: e.target.value })}
+                />
+              )}
+
+              {property && <span className="text-gray-400">{property.type}</span>}
+
+              <button
+                onClick={() => remove(index)}
+                className="ml-auto px-2 py-0.5 text-gray-400 hover:text-red-600"
+                title="Remove mapping"
+              >
+                ✕
+              </button>
+
+              {isSelect && (
+                <input
+                  key={formatAliases(mapping.aliases)}
+                  type="text"
+                  placeholder="Aliases, e.g. To Read=Waiting; Article=Paper"
+                  className="w-full p-1 border rounded"
+                  defaultValue={formatAliases(mapping.aliases)}
+                  onBlur={(e) => update(index, { aliases: parseAliases(e.target.value) })}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={add}
+          className="px-2 py-1 bg-gray-100 rounded hover:bg-gray-200 text-xs"
+        >
+          Add Mapping
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_FIELD_MAPPINGS)}
+          className="px-2 py-1 bg-gray-100 rounded hover:bg-gray-200 text-xs"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { citationMarkdown, formatCitation } from '@/lib/citation';
+import { formatItemType } from '@/lib/mapping';
+import {
+  DEFAULT_NOTE_TEMPLATES,
+  renderNoteBody,
+  SAMPLE_CHILD_CONTENT,
+  SAMPLE_ZOTERO_ITEM,
+  TEMPLATE_ITEM_TYPES,
+  TEMPLATE_VARIABLES,
+} from '@/lib/note-template';
+import { CitationStyle } from '@/types/citation';
+import { NoteTemplates } from '@/types/template';
+
+interface NoteTemplateEditorProps {
+  templates: NoteTemplates;
+  importChildren: boolean; // Preview with the sample notes and highlights
+  citationStyle: CitationStyle;
+  onChange: (templates: NoteTemplates) => void;
+}
+
+const DEFAULT_TAB = 'default';
+
+export default function NoteTemplateEditor({ templates, importChildren, citationStyle, onChange }: NoteTemplateEditorProps) {
+  const [selected, setSelected] = useState(DEFAULT_TAB);
+
+  const byItemType = templates.byItemType || {};
+  const itemTypes = Object.keys(byItemType);
+  const available = TEMPLATE_ITEM_TYPES.filter((type) => !(type in byItemType));
+  const current = selected === DEFAULT_TAB ? templates.default : byItemType[selected] ?? '';
+
+  const update = (text: string) => {
+    if (selected === DEFAULT_TAB) {
+      onChange({ ...templates, default: text });
+    } else {
+      onChange({ ...templates, byItemType: { ...byItemType, [selected]: text } });
+    }
+  };
+
+  const addType = (type: string) => {
+    if (!type) return;
+    // Start from the default so the metadata header and sections carry over
+    onChange({ ...templates, byItemType: { ...byItemType, [type]: templates.default } });
+    setSelected(type);
+  };
+
+  const removeType = (type: string) => {
+    const rest = { ...byItemType };
+    delete rest[type];
+    onChange({ ...templates, byItemType: rest });
+    setSelected(DEFAULT_TAB);
+  };
+
+  const reset = () => {
+    if (selected === DEFAULT_TAB) {
+      onChange({ ...templates, default: DEFAULT_NOTE_TEMPLATES.default });
+    } else {
+      removeType(selected);
+    }
+  };
+
+  // Render against the sample item, posing as the item type being edited
+  const preview = useMemo(() => {
+    const item = selected === DEFAULT_TAB
+      ? SAMPLE_ZOTERO_ITEM
+      : { ...SAMPLE_ZOTERO_ITEM, data: { ...SAMPLE_ZOTERO_ITEM.data, itemType: selected } };
+    try {
+      const body = renderNoteBody(item, templates, {
+        collectionPath: 'Reading / Transformers',
+        children: importChildren ? SAMPLE_CHILD_CONTENT : undefined,
+        citation: citationMarkdown(formatCitation(item, citationStyle), citationStyle),
+      });
+      return { body, error: '' };
+    } catch (e: unknown) {
+      return { body: '', error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [templates, selected, importChildren, citationStyle]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {[DEFAULT_TAB, ...itemTypes].map((type) => (
+          <button
+            key={type}
+            onClick={() => setSelected(type)}
+            className={`px-2 py-1 rounded ${selected === type ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+          >
+            {type === DEFAULT_TAB ? 'Default' : formatItemType(type)}
+          </button>
+        ))}
+        {available.length > 0 && (
+          <select
+            className="p-1 border rounded bg-white"
+            value=""
+            onChange={(e) => addType(e.target.value)}
+          >
+            <option value="">+ Template for item type...</option>
+            {available.map((type) => (
+              <option key={type} value={type}>{formatItemType(type)}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <textarea
+            className="w-full h-80 p-2 border rounded font-mono text-xs"
+            spellCheck={false}
+            value={current}
+            onChange={(e) => update(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={reset}
+              className="px-2 py-1 bg-gray-100 rounded hover:bg-gray-200 text-xs"
+            >
+              {selected === DEFAULT_TAB ? 'Reset to Default' : 'Remove Template'}
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-xs text-gray-400">Preview with a sample item</p>
+          {preview.error ? (
+            <p className="p-2 text-xs text-red-600 bg-red-50 border border-red-100 rounded">{preview.error}</p>
+          ) : (
+            <pre className="h-80 overflow-auto p-2 bg-gray-50 border rounded text-xs whitespace-pre-wrap">{preview.body}</pre>
+          )}
+        </div>
+      </div>
+
+      <details className="text-xs text-gray-500">
+        <summary className="cursor-pointer">Placeholders</summary>
+        <p className="mt-2">
+          {'Use {{name}}, {{#if name}}...{{else}}...{{/if}}, {{#unless name}}...{{/unless}} and {{#each list}}...{{/each}}; inside a loop, {{this}}, {{@index}}, {{@first}} and {{@last}} refer to the current entry.'}
+        </p>
+        <ul className="mt-2 space-y-0.5">
+          {TEMPLATE_VARIABLES.map((variable) => (
+            <li key={variable.name}>
+              <code className="text-gray-700">{variable.name}</code> — {variable.description}
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { formatDuration, itemLabel } from '@/lib/sync-events';
+import { RunRecord, RunSummary } from '@/types/history';
+
+interface RunHistoryProps {
+  runs: RunSummary[]; // Newest first
+  selected: RunRecord | null;
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}
+
+const TRIGGER_LABELS: Record<RunSummary['trigger'], string> = {
+  manual: 'Manual',
+  auto: 'Auto-sync',
+  push: 'Push',
+  cli: 'CLI',
+};
+
+const ITEM_STYLES: Record<RunRecord['items'][number]['type'], string> = {
+  'item-created': 'bg-green-100 text-green-700',
+  'item-updated': 'bg-blue-100 text-blue-700',
+  'item-skipped': 'bg-gray-100 text-gray-600',
+  'item-failed': 'bg-red-100 text-red-700',
+};
+
+// Failed items plus run-level errors
+function failureCount(run: RunSummary): number {
+  return run.summary ? run.summary.failed + run.summary.errors : 0;
+}
+
+function describeOutcome(run: RunSummary): string {
+  if (run.outcome === 'interrupted') return 'Interrupted';
+  if (!run.finishedAt) return 'Running';
+  if (run.outcome === 'completed' && failureCount(run) > 0) return 'Finished with errors';
+  return { completed: 'Finished', failed: 'Stopped by an error', aborted: 'Cancelled', interrupted: 'Interrupted' }[run.outcome!];
+}
+
+function RunDetails({ run, onClose }: { run: RunRecord; onClose: () => void }) {
+  const failed = run.items.filter((item) => item.type === 'item-failed');
+  const others = run.items.filter((item) => item.type !== 'item-failed');
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-gray-800">
+          {new Date(run.startedAt).toLocaleString()} · {TRIGGER_LABELS[run.trigger]}{run.dryRun ? ' · Preview' : ''}
+        </p>
+        <button onClick={onClose} className="px-2 py-1 bg-gray-100 rounded hover:bg-gray-200 text-xs">
+          Back
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {describeOutcome(run)}
+        {run.elapsedMs !== undefined && ` in ${formatDuration(run.elapsedMs)}`}
+        {run.config.zotero?.collectionId && ` · Collection ${run.config.zotero.collectionId}`}
+        {run.config.destination?.type === 'markdown' && ` · Markdown folder ${run.config.destination.folder}`}
+      </p>
+
+      {run.messages.length > 0 && (
+        <ul className="text-xs space-y-1">
+          {run.messages.map((message, i) => (
+            <li key={i} className={message.type === 'error' ? 'text-red-600' : 'text-yellow-700'}>
+              {message.type === 'error' ? '❌' : '⚠️'} {message.message}
+              {message.errorCategory && <span className="text-gray-400"> ({message.errorCategory})</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {run.items.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">No items were processed in this run.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <tbody>
+            {/* Failures first, they are what the history is usually opened for */}
+            {[...failed, ...others].map((item, i) => (
+              <tr key={`${item.itemKey}-${i}`} className="border-b border-gray-100 align-top">
+                <td className="py-1 w-20">
+                  <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${ITEM_STYLES[item.type]}`}>
+                    {itemLabel(item.type, run.dryRun)}
+                  </span>
+                </td>
+                <td className="py-1">
+                  <p className="font-medium text-gray-800">{item.title}</p>
+                  {item.details && (
+                    <p className="text-gray-500">
+                      {item.details}
+                      {item.errorCategory && <span className="text-gray-400"> ({item.errorCategory})</span>}
+                    </p>
+                  )}
+                </td>
+                <td className="py-1 w-16 text-right text-gray-400">{formatDuration(item.durationMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function RunHistory({ runs, selected, onOpen, onClose }: RunHistoryProps) {
+  if (selected) {
+    return <RunDetails run={selected} onClose={onClose} />;
+  }
+
+  if (runs.length === 0) {
+    return <p className="text-xs text-gray-400 italic">No runs recorded yet.</p>;
+  }
+
+  // Bars are scaled to the worst run, so a rise in failures stands out
+  const maxFailures = Math.max(1, ...runs.map(failureCount));
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 border-b">
+          <th className="py-1">Started</th>
+          <th className="py-1">Trigger</th>
+          <th className="py-1">Result</th>
+          <th className="py-1 text-right">Created</th>
+          <th className="py-1 text-right">Updated</th>
+          <th className="py-1 text-right">Skipped</th>
+          <th className="py-1 w-32">Failures</th>
+        </tr>
+      </thead>
+      <tbody>
+        {runs.map((run) => {
+          const failures = failureCount(run);
+          return (
+            <tr
+              key={run.id}
+              onClick={() => onOpen(run.id)}
+              className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${run.finishedAt ? '' : 'text-gray-400'}`}
+            >
+              <td className="py-1">{new Date(run.startedAt).toLocaleString()}</td>
+              <td className="py-1">{TRIGGER_LABELS[run.trigger]}{run.dryRun ? ' (preview)' : ''}</td>
+              <td className="py-1">{describeOutcome(run)}</td>
+              <td className="py-1 text-right">{run.summary?.created ?? '–'}</td>
+              <td className="py-1 text-right">{run.summary?.updated ?? '–'}</td>
+              <td className="py-1 text-right">{run.summary?.skipped ?? '–'}</td>
+              <td className="py-1">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 h-1.5 bg-gray-100 rounded">
+                    {failures > 0 && (
+                      <div className="h-1.5 bg-red-500 rounded" style={{ width: `${(failures / maxFailures) * 100}%` }} />
+                    )}
+                  </div>
+                  <span className={failures > 0 ? 'text-red-600' : 'text-gray-400'}>{failures}</span>
+                </div>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { SchemaCheckResult, SchemaIssue } from '@/types/craft';
+
+interface SchemaCheckReportProps {
+  result: SchemaCheckResult;
+  creating: boolean;
+  onCreateMissing: () => void;
+}
+
+function describe(issue: SchemaIssue): string {
+  if (issue.problem === 'wrongType') {
+    return `is ${issue.actualType}, expected ${issue.expectedType}`;
+  }
+  if (issue.similar) {
+    return `missing; rename '${issue.similar}' to match the case exactly`;
+  }
+  return `missing (${issue.expectedType})`;
+}
+
+export default function SchemaCheckReport({ result, creating, onCreateMissing }: SchemaCheckReportProps) {
+  if (result.error) {
+    return <p className="text-sm text-red-600">❌ Collection schema could not be checked: {result.error}</p>;
+  }
+
+  if (result.issues.length === 0) {
+    return <p className="text-sm text-green-600">✅ Collection has all expected properties</p>;
+  }
+
+  const creatable = result.issues.some((issue) => issue.problem === 'missing' && !issue.similar);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className={result.ok ? 'text-yellow-700' : 'text-red-600'}>
+        {result.ok ? '⚠️ Collection is usable, with recommendations:' : '❌ Collection does not match the expected properties:'}
+      </p>
+      <ul className="text-xs text-gray-600 space-y-0.5 pl-4 list-disc">
+        {result.issues.map((issue) => (
+          <li key={issue.property}>
+            <span className="font-medium text-gray-800">{issue.property}</span> {describe(issue)}
+            {issue.optional && <span className="text-gray-400"> (optional)</span>}
+          </li>
+        ))}
+      </ul>
+      {creatable && (
+        <button
+          onClick={onCreateMissing}
+          disabled={creating}
+          className="px-2 py-1 bg-gray-100 rounded hover:bg-gray-200 text-xs disabled:opacity-50"
+        >
+          {creating ? 'Creating...' : 'Create Missing Properties'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { ItemEvent } from '@/types/sync';
+
+interface SyncPreviewTableProps {
+  items: ItemEvent[]; // Item events of a dry run
+  approved: Set<string>; // Item keys
+  onChange: (approved: Set<string>) => void;
+}
+
+const ACTION_LABELS: Record<ItemEvent['type'], string> = {
+  'item-created': 'Create',
+  'item-updated': 'Update',
+  'item-skipped': 'Skip',
+  'item-failed': 'Failed',
+};
+
+const ACTION_STYLES: Record<ItemEvent['type'], string> = {
+  'item-created': 'bg-green-100 text-green-700',
+  'item-updated': 'bg-blue-100 text-blue-700',
+  'item-skipped': 'bg-gray-100 text-gray-600',
+  'item-failed': 'bg-red-100 text-red-700',
+};
+
+// Only items the run would write can be approved
+const isActionable = (item: ItemEvent) => item.type === 'item-created' || item.type === 'item-updated';
+
+export default function SyncPreviewTable({ items, approved, onChange }: SyncPreviewTableProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const actionable = items.filter(isActionable);
+  const allApproved = actionable.length > 0 && actionable.every((item) => approved.has(item.itemKey));
+
+  const toggle = (key: string) => {
+    const next = new Set(approved);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    onChange(next);
+  };
+
+  const toggleAll = () => {
+    onChange(allApproved ? new Set() : new Set(actionable.map((item) => item.itemKey)));
+  };
+
+  if (items.length === 0) {
+    return <p className="text-xs text-gray-400 italic">The preview found nothing to sync.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500 border-b">
+          <th className="py-1 w-6">
+            <input type="checkbox" checked={allApproved} onChange={toggleAll} disabled={actionable.length === 0} />
+          </th>
+          <th className="py-1 w-16">Action</th>
+          <th className="py-1">Item</th>
+          <th className="py-1 w-20"></th>
+        </tr>
+      </thead>
+      <tbody>
+        {items.map((item, i) => {
+          const key = item.itemKey || String(i);
+          const isOpen = expanded === key;
+          return (
+            <tr key={key} className="border-b border-gray-100 align-top">
+              <td className="py-1">
+                {isActionable(item) && (
+                  <input type="checkbox" checked={approved.has(item.itemKey)} onChange={() => toggle(item.itemKey)} />
+                )}
+              </td>
+              <td className="py-1">
+                <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${ACTION_STYLES[item.type]}`}>
+                  {ACTION_LABELS[item.type]}
+                </span>
+              </td>
+              <td className="py-1">
+                <p className="font-medium text-gray-800">{item.title}</p>
+                {item.details && <p className="text-gray-500">{item.details}</p>}
+                {isOpen && item.preview && (
+                  <div className="mt-2 space-y-2">
+                    {Object.keys(item.preview.properties).length > 0 && (
+                      <pre className="p-2 bg-gray-50 border rounded overflow-auto">{JSON.stringify(item.preview.properties, null, 2)}</pre>
+                    )}
+                    {item.preview.header && (
+                      <pre className="p-2 bg-gray-50 border rounded overflow-auto whitespace-pre-wrap">
+                        {Object.entries(item.preview.header).map(([label, value]) => `**${label}:** ${value}`).join('\n')}
+                      </pre>
+                    )}
+                    {item.preview.markdownBody && (
+                      <pre className="p-2 bg-gray-50 border rounded overflow-auto whitespace-pre-wrap max-h-64">{item.preview.markdownBody}</pre>
+                    )}
+                  </div>
+                )}
+              </td>
+              <td className="py-1 text-right">
+                {item.preview && (
+                  <button
+                    onClick={() => setExpanded(isOpen ? null : key)}
+                    className="px-2 py-0.5 bg-gray-100 rounded hover:bg-gray-200"
+                  >
+                    {isOpen ? 'Hide' : 'Payload'}
+                  </button>
+                )}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
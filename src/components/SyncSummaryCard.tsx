@@ -0,0 +1,58 @@
+'use client';
+
+import { formatDuration } from '@/lib/sync-events';
+import { RunFinishedEvent, SyncSummary } from '@/types/sync';
+
+interface SyncSummaryCardProps {
+  run: RunFinishedEvent;
+}
+
+const COUNTS: Array<{ field: keyof SyncSummary; label: string; dryRunLabel: string; style: string }> = [
+  { field: 'created', label: 'Created', dryRunLabel: 'Would create', style: 'text-green-700' },
+  { field: 'updated', label: 'Updated', dryRunLabel: 'Would update', style: 'text-blue-700' },
+  { field: 'skipped', label: 'Skipped', dryRunLabel: 'Would skip', style: 'text-gray-600' },
+  { field: 'failed', label: 'Failed', dryRunLabel: 'Failed', style: 'text-red-700' },
+];
+
+const OUTCOMES: Record<RunFinishedEvent['outcome'], { label: string; style: string }> = {
+  completed: { label: '✅ Sync finished', style: 'text-green-700' },
+  failed: { label: '❌ Sync stopped by an error', style: 'text-red-600' },
+  aborted: { label: '⏹️ Sync cancelled', style: 'text-gray-600' },
+};
+
+export default function SyncSummaryCard({ run }: SyncSummaryCardProps) {
+  const { summary } = run;
+  const problems = summary.failed + summary.errors > 0;
+  const outcome = run.outcome === 'completed' && problems
+    ? { label: '⚠️ Sync finished with errors', style: 'text-yellow-700' }
+    : OUTCOMES[run.outcome];
+
+  return (
+    <div className="p-3 border rounded-lg bg-gray-50 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <p className={`font-medium ${outcome.style}`}>
+          {run.dryRun ? outcome.label.replace('Sync', 'Preview') : outcome.label}
+        </p>
+        <span className="text-xs text-gray-400" title={new Date(run.at).toLocaleString()}>
+          {formatDuration(run.elapsedMs)}
+        </span>
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {COUNTS.map(({ field, label, dryRunLabel, style }) => (
+          <div key={field}>
+            <p className={`text-lg font-semibold ${summary[field] > 0 ? style : 'text-gray-300'}`}>{summary[field]}</p>
+            <p className="text-[10px] uppercase text-gray-500">{run.dryRun ? dryRunLabel : label}</p>
+          </div>
+        ))}
+      </div>
+      {(summary.warnings > 0 || summary.errors > 0) && (
+        <p className="text-xs text-gray-500">
+          {[
+            summary.errors > 0 && `${summary.errors} error(s)`,
+            summary.warnings > 0 && `${summary.warnings} warning(s)`,
+          ].filter(Boolean).join(', ')} — see the Activity Log
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,23 @@
 import { useState, useEffect } from 'react';
-import { ZoteroConfig } from '@/types/zotero';
-import { CraftConfig } from '@/types/craft';
+import { DEFAULT_SYNC_SETTINGS, SyncConfig, SyncSettings } from '@/types/sync';
 
 export interface AutoSyncConfig {
     enabled: boolean;
     intervalMinutes: number;
+    push?: boolean;
 }
 
-export interface AppConfig {
-    zotero: ZoteroConfig;
-    craft: CraftConfig;
+// Settings saved by the app; also the config file format of the CLI (src/cli/sync.ts)
+export interface AppConfig extends SyncConfig {
     autoSync: AutoSyncConfig;
+    sync: SyncSettings;
 }
 
 const DEFAULT_CONFIG: AppConfig = {
     zotero: { userId: '', apiKey: '', collectionId: '' },
     craft: { linkId: '', apiKey: '', parentDocumentId: '', targetCollectionId: '' },
     autoSync: { enabled: false, intervalMinutes: 5 },
+    sync: DEFAULT_SYNC_SETTINGS,
 };
 
 export function useConfig() {
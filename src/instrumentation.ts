@@ -0,0 +1,10 @@
+// Runs once when the Next.js server starts: closes the history entries of runs the last
+// server process left open, and re-arms the persisted auto-sync schedule
+export async function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const { markInterruptedRuns } = await import('@/lib/run-history');
+        await markInterruptedRuns();
+        const { getScheduler } = await import('@/lib/scheduler');
+        await getScheduler().start();
+    }
+}
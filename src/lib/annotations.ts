@@ -0,0 +1,57 @@
+import { htmlToMarkdown } from '@/lib/html-to-markdown';
+import { ZoteroItem } from '@/types/zotero';
+
+// Zotero's built-in annotation colours
+const COLOR_NAMES: Record<string, string> = {
+    '#ffd400': 'Yellow',
+    '#ff6666': 'Red',
+    '#5fb236': 'Green',
+    '#2ea8e5': 'Blue',
+    '#a28ae5': 'Purple',
+    '#e56eee': 'Magenta',
+    '#f19837': 'Orange',
+    '#aaaaaa': 'Gray',
+};
+
+function colorName(color?: string): string {
+    if (!color) return '';
+    return COLOR_NAMES[color.toLowerCase()] || color;
+}
+
+/**
+ * One highlight as a markdown list entry for the Quotes section, e.g.
+ * `- "quoted text" (p. 12, Yellow)` followed by the comment, if any.
+ */
+export function formatAnnotation(annotation: ZoteroItem): string {
+    const data = annotation.data;
+    const details = [
+        data.annotationPageLabel ? `p. ${data.annotationPageLabel}` : '',
+        colorName(data.annotationColor),
+    ].filter(Boolean).join(', ');
+    const suffix = details ? ` (${details})` : '';
+
+    const text = data.annotationText?.trim().replace(/\s*\n\s*/g, ' ');
+    const comment = data.annotationComment?.trim();
+
+    // Sticky notes and image/ink annotations carry no text, only a comment
+    const lines = [text ? `- "${text}"${suffix}` : `- [${data.annotationType || 'annotation'}]${suffix}`];
+    if (comment) {
+        lines.push(...comment.split('\n').map((line) => `  ${line}`));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * A child note converted from Zotero's HTML to markdown
+ */
+export function formatChildNote(note: ZoteroItem): string {
+    return htmlToMarkdown(note.data.note || '');
+}
+
+export function renderAnnotations(annotations: ZoteroItem[]): string {
+    return annotations.map(formatAnnotation).join('\n');
+}
+
+export function renderChildNotes(notes: ZoteroItem[]): string {
+    return notes.map(formatChildNote).filter(Boolean).join('\n\n---\n\n');
+}
@@ -0,0 +1,103 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeLatex, parseBibtex } from '@/lib/bibtex';
+
+describe('decodeLatex', () => {
+    test('turns accent commands into accented letters', () => {
+        assert.equal(decodeLatex("G{\\\"o}del, Erd\\H{o}s, \\'{E}mile, Fran\\c{c}ois, \\v{C}apek, na\\\"{\\i}ve"), 'Gödel, Erdős, Émile, François, Čapek, naïve');
+    });
+
+    test('turns symbol commands and escapes into characters', () => {
+        assert.equal(decodeLatex('Stra\\ss e, \\O{}stergaard, \\aa ngstr\\"om, 50\\% \\& more'), 'Straße, Østergaard, ångström, 50% & more');
+    });
+
+    test('drops formatting commands, braces and ties', () => {
+        assert.equal(decodeLatex('The {DNA} of \\emph{E.~coli} in \\textbf{vivo}'), 'The DNA of E. coli in vivo');
+    });
+});
+
+describe('parseBibtex', () => {
+    test('reads an entry with braced, quoted and numeric values', () => {
+        const { items, errors } = parseBibtex(`
+@Article{smith2020,
+  author = {Smith, Jane and John Doe},
+  title = "A {Study} of Things",
+  journal = {Journal of Things},
+  year = 2020,
+  volume = {12},
+  pages = {1--10},
+  doi = {10.1000/xyz},
+  keywords = {alpha, beta; gamma},
+}`, 1);
+
+        assert.deepEqual(errors, []);
+        assert.equal(items.length, 1);
+        const data = items[0].data;
+        assert.equal(data.itemType, 'journalArticle');
+        assert.equal(data.title, 'A Study of Things');
+        assert.deepEqual(data.creators, [
+            { creatorType: 'author', lastName: 'Smith', firstName: 'Jane' },
+            { creatorType: 'author', lastName: 'Doe', firstName: 'John' },
+        ]);
+        assert.equal(data.publicationTitle, 'Journal of Things');
+        assert.equal(data.date, '2020');
+        assert.equal(data.pages, '1-10');
+        assert.equal(data.DOI, '10.1000/xyz');
+        assert.equal(data.citationKey, 'smith2020');
+        assert.deepEqual(data.tags, [{ tag: 'alpha' }, { tag: 'beta' }, { tag: 'gamma' }]);
+    });
+
+    test('keeps braced organisation authors whole', () => {
+        const { items } = parseBibtex('@report{who2020, author = {{World Health Organization} and {Smith and Sons}}, title = {Report}}', 1);
+        assert.deepEqual(items[0].data.creators, [
+            { creatorType: 'author', name: 'World Health Organization' },
+            { creatorType: 'author', name: 'Smith and Sons' },
+        ]);
+    });
+
+    test('expands month macros, @string macros and # concatenation', () => {
+        const { items } = parseBibtex(`
+@string{jot = "Journal of "}
+@article{a, title = {A}, journal = jot # {Things}, year = {2019}, month = mar}
+@article{b, title = {B}, year = {2019}, month = {September}, day = {5}}
+@article{c, title = {C}, year = {2019}, month = {11}}`, 1);
+
+        assert.equal(items[0].data.publicationTitle, 'Journal of Things');
+        assert.deepEqual(items.map((item) => item.data.date), ['2019-03', '2019-09-05', '2019-11']);
+    });
+
+    test('skips comments, preambles and text between entries', () => {
+        const { items, errors } = parseBibtex(`
+Exported by someone@example.com
+@comment{ignored}
+@preamble{"\\newcommand{\\noop}[1]{}"}
+@book{a, title = {A Book}, publisher = {Press}}`, 1);
+
+        assert.deepEqual(errors, []);
+        assert.deepEqual(items.map((item) => [item.data.itemType, item.data.title]), [['book', 'A Book']]);
+    });
+
+    test('reports a malformed entry and reads the ones after it', () => {
+        const { items, errors } = parseBibtex(`
+@article{broken, title = {Unclosed, year = 2020
+@article{good, title = {Good}, year = {2021}}
+@article{untitled, year = {2021}}
+@misc{novalue, title = }
+@article{last, title = {Last}}`, 1);
+
+        assert.deepEqual(items.map((item) => item.data.title), ['Good', 'Last']);
+        assert.deepEqual(errors.map((error) => error.entry), ['broken', 'untitled', 'novalue']);
+        assert.match(errors[0].message, /Unclosed brace opened on line 2/);
+        assert.equal(errors[1].message, 'Missing title');
+        assert.match(errors[2].message, /Missing value on line 5/);
+    });
+
+    test('gives the same entry the same item key on every import', () => {
+        const entry = '@article{smith2020, title = {A Study}, year = {2020}}';
+        const first = parseBibtex(entry, 1).items[0];
+        const second = parseBibtex(entry, 2).items[0];
+        assert.equal(first.key, second.key);
+        assert.match(first.key, /^[23456789A-NP-Z]{8}$/);
+        assert.equal(second.version, 2);
+    });
+});
@@ -0,0 +1,330 @@
+// Reads BibTeX / BibLaTeX files into ZoteroItemData. Covers what reference managers
+// export: braced and quoted values, @string macros, "#" concatenation and the common
+// LaTeX accent commands.
+
+import { formatDateParts, ImportedFields, parsePersonName, toImportedItem } from '@/lib/import-item';
+import { ImportError } from '@/types/import';
+import { ZoteroItem } from '@/types/zotero';
+
+const ITEM_TYPES: Record<string, string> = {
+    article: 'journalArticle',
+    book: 'book',
+    inbook: 'bookSection',
+    incollection: 'bookSection',
+    inproceedings: 'conferencePaper',
+    conference: 'conferencePaper',
+    phdthesis: 'thesis',
+    mastersthesis: 'thesis',
+    thesis: 'thesis',
+    techreport: 'report',
+    report: 'report',
+    online: 'webpage',
+    electronic: 'webpage',
+    unpublished: 'manuscript',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// LaTeX accent command -> combining character
+const ACCENTS: Record<string, string> = {
+    '`': '\u0300',
+    "'": '\u0301',
+    '^': '\u0302',
+    '~': '\u0303',
+    '=': '\u0304',
+    'u': '\u0306',
+    '.': '\u0307',
+    '"': '\u0308',
+    'H': '\u030B',
+    'v': '\u030C',
+    'c': '\u0327',
+    'k': '\u0328',
+};
+
+const SYMBOLS: Record<string, string> = {
+    ss: 'ß',
+    o: 'ø',
+    O: 'Ø',
+    aa: 'å',
+    AA: 'Å',
+    ae: 'æ',
+    AE: 'Æ',
+    oe: 'œ',
+    OE: 'Œ',
+    l: 'ł',
+    L: 'Ł',
+    i: 'ı',
+};
+
+class BibtexSyntaxError extends Error {}
+
+/**
+ * Turns LaTeX markup into plain text: accents, escaped characters, formatting commands, braces
+ */
+export function decodeLatex(text: string): string {
+    return text
+        .replace(/\\([`'^~="])\s*\{?\\?([A-Za-z])\}?/g, (_, accent: string, letter: string) => letter + ACCENTS[accent])
+        .replace(/\\([uvHck.])\s*\{\\?([A-Za-z])\}/g, (_, accent: string, letter: string) => letter + ACCENTS[accent])
+        .replace(/\\(ss|aa|AA|ae|AE|oe|OE|[oOlLi])(?![A-Za-z])\s*/g, (_, symbol: string) => SYMBOLS[symbol])
+        .replace(/\\(?:textit|textbf|emph|textsc|texttt|textrm|mathrm|url)\s*\{/g, '{')
+        .replace(/\\([&%$#_{}])/g, '$1')
+        .replace(/~/g, ' ')
+        .replace(/[{}]/g, '')
+        .replace(/\s+/g, ' ')
+        .normalize('NFC')
+        .trim();
+}
+
+/**
+ * Splits an author field on top-level "and"; braced groups stay together
+ */
+function splitNames(value: string): string[] {
+    const names: string[] = [];
+    let depth = 0;
+    let current = '';
+    const words = value.split(/(\s+and\s+|[{}])/i);
+
+    for (const word of words) {
+        if (word === '{') depth++;
+        if (word === '}') depth--;
+        if (depth === 0 && /^\s+and\s+$/i.test(word)) {
+            names.push(current);
+            current = '';
+        } else {
+            current += word;
+        }
+    }
+    names.push(current);
+    return names.map((name) => name.trim()).filter(Boolean);
+}
+
+/**
+ * Reads entries one by one so a broken entry only costs itself
+ */
+class BibtexReader {
+    private pos = 0;
+    private strings: Record<string, string> = {};
+
+    constructor(private text: string) {
+        MONTHS.forEach((month, i) => (this.strings[month] = String(i + 1)));
+    }
+
+    lineAt(index: number): number {
+        return this.text.slice(0, index).split('\n').length;
+    }
+
+    // Position of the next "@" that starts an entry, or -1. Text between entries is a
+    // comment in BibTeX, so an "@" inside a word (an email address) is skipped.
+    nextEntry(): number {
+        let at = this.text.indexOf('@', this.pos);
+        while (at > 0 && /\w/.test(this.text[at - 1])) at = this.text.indexOf('@', at + 1);
+        this.pos = at === -1 ? this.text.length : at + 1;
+        return at;
+    }
+
+    skipTo(index: number) {
+        this.pos = index;
+    }
+
+    private skipSpace() {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+    }
+
+    private readWord(): string {
+        this.skipSpace();
+        const match = this.text.slice(this.pos).match(/^[^\s,={}()"#@]+/);
+        if (!match) return '';
+        this.pos += match[0].length;
+        return match[0];
+    }
+
+    private expect(chars: string): string {
+        this.skipSpace();
+        const char = this.text[this.pos];
+        if (!chars.includes(char)) {
+            throw new BibtexSyntaxError(`Expected '${chars.split('').join("' or '")}' on line ${this.lineAt(this.pos)}`);
+        }
+        this.pos++;
+        return char;
+    }
+
+    // A braced value, returned with its inner braces (they matter for names)
+    private readBraced(): string {
+        const start = this.pos;
+        let depth = 1;
+        while (this.pos < this.text.length && depth > 0) {
+            const char = this.text[this.pos++];
+            if (char === '\\') this.pos++;
+            else if (char === '{') depth++;
+            else if (char === '}') depth--;
+        }
+        if (depth > 0) throw new BibtexSyntaxError(`Unclosed brace opened on line ${this.lineAt(start)}`);
+        return this.text.slice(start, this.pos - 1);
+    }
+
+    private readQuoted(): string {
+        const start = this.pos;
+        let depth = 0;
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos++];
+            if (char === '\\') this.pos++;
+            else if (char === '{') depth++;
+            else if (char === '}') depth--;
+            else if (char === '"' && depth === 0) return this.text.slice(start, this.pos - 1);
+        }
+        throw new BibtexSyntaxError(`Unclosed quote opened on line ${this.lineAt(start)}`);
+    }
+
+    // value = part # part # ...
+    private readValue(): string {
+        let value = '';
+        while (true) {
+            this.skipSpace();
+            const char = this.text[this.pos];
+            if (char === '{') {
+                this.pos++;
+                value += this.readBraced();
+            } else if (char === '"') {
+                this.pos++;
+                value += this.readQuoted();
+            } else {
+                const word = this.readWord();
+                if (!word) throw new BibtexSyntaxError(`Missing value on line ${this.lineAt(this.pos)}`);
+                value += this.strings[word.toLowerCase()] ?? word;
+            }
+
+            this.skipSpace();
+            if (this.text[this.pos] !== '#') return value;
+            this.pos++;
+        }
+    }
+
+    /**
+     * Reads the entry after an "@". Returns null for @comment, @preamble and @string.
+     */
+    readEntry(): { type: string; key: string; fields: Record<string, string> } | null {
+        const type = this.readWord().toLowerCase();
+        if (!type) throw new BibtexSyntaxError(`Missing entry type on line ${this.lineAt(this.pos)}`);
+
+        if (type === 'comment') return null;
+
+        const open = this.expect('{(');
+        const close = open === '{' ? '}' : ')';
+
+        if (type === 'preamble') {
+            this.readValue();
+            this.expect(close);
+            return null;
+        }
+
+        if (type === 'string') {
+            const name = this.readWord().toLowerCase();
+            this.expect('=');
+            this.strings[name] = this.readValue();
+            this.expect(close);
+            return null;
+        }
+
+        const key = this.readWord();
+        const fields: Record<string, string> = {};
+
+        while (true) {
+            const separator = this.expect(`,${close}`);
+            if (separator === close) break;
+
+            this.skipSpace();
+            if (this.text[this.pos] === close) {
+                this.pos++;
+                break; // Trailing comma
+            }
+
+            const name = this.readWord().toLowerCase();
+            if (!name) throw new BibtexSyntaxError(`Missing field name on line ${this.lineAt(this.pos)}`);
+            this.expect('=');
+            fields[name] = this.readValue();
+        }
+
+        return { type, key, fields };
+    }
+}
+
+function toFields(type: string, key: string, raw: Record<string, string>): ImportedFields {
+    const field = (name: string) => (raw[name] !== undefined ? decodeLatex(raw[name]) : undefined);
+    const itemType = ITEM_TYPES[type] || (raw.url ? 'webpage' : 'document');
+
+    // Fully braced names are organizations and stay whole
+    const person = (name: string, creatorType: string) =>
+        /^\{.*\}$/.test(name) ? { creatorType, name: decodeLatex(name) } : parsePersonName(decodeLatex(name), creatorType);
+    const creators = [
+        ...splitNames(raw.author || '').map((name) => person(name, 'author')),
+        ...splitNames(raw.editor || '').map((name) => person(name, 'editor')),
+    ];
+
+    let date = field('date');
+    if (!date && field('year')) {
+        const month = field('month');
+        const monthNumber = month && (/^\d+$/.test(month) ? month : String(MONTHS.indexOf(month.slice(0, 3).toLowerCase()) + 1));
+        date = formatDateParts(field('year'), monthNumber && monthNumber !== '0' ? monthNumber : undefined, field('day'));
+    }
+
+    const container = field('journal') || field('journaltitle');
+    const booktitle = field('booktitle');
+    const isbnOrIssn = itemType === 'journalArticle' ? { ISSN: field('issn') } : { ISBN: field('isbn') };
+
+    return {
+        itemType,
+        title: field('title') || '',
+        creators,
+        date,
+        publicationTitle: container || (itemType === 'conferencePaper' ? booktitle : undefined),
+        bookTitle: itemType === 'bookSection' ? booktitle : undefined,
+        publisher: field('publisher') || (itemType === 'report' ? field('institution') : undefined),
+        place: field('address') || field('location'),
+        university: itemType === 'thesis' ? field('school') || field('institution') : undefined,
+        volume: field('volume'),
+        issue: field('number') || field('issue'),
+        pages: field('pages')?.replace(/-+/g, '-'),
+        edition: field('edition'),
+        series: field('series'),
+        language: field('language') || field('langid'),
+        url: raw.url?.trim(),
+        DOI: raw.doi?.trim(),
+        abstractNote: field('abstract'),
+        ...isbnOrIssn,
+        citationKey: key || undefined,
+        tags: (field('keywords') || '').split(/[,;]/),
+    };
+}
+
+/**
+ * Parses a BibTeX file. Entries that can't be read, or have no title, are reported
+ * in `errors` and the rest are still returned.
+ */
+export function parseBibtex(content: string, version: number): { items: ZoteroItem[]; errors: ImportError[] } {
+    const reader = new BibtexReader(content);
+    const items: ZoteroItem[] = [];
+    const errors: ImportError[] = [];
+
+    let start: number;
+    while ((start = reader.nextEntry()) !== -1) {
+        const label = content.slice(start).match(/^@\s*\w+\s*[{(]\s*([^,\s]+)\s*,/)?.[1] || `Entry on line ${reader.lineAt(start)}`;
+
+        try {
+            const entry = reader.readEntry();
+            if (!entry) continue;
+
+            const fields = toFields(entry.type, entry.key, entry.fields);
+            if (!fields.title) {
+                errors.push({ entry: label, message: 'Missing title' });
+                continue;
+            }
+            items.push(toImportedItem(fields, version));
+        } catch (e: unknown) {
+            errors.push({ entry: label, message: e instanceof Error ? e.message : String(e) });
+            // Resume at the next entry
+            reader.skipTo(start + 1);
+        }
+    }
+
+    return { items, errors };
+}
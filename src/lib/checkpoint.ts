@@ -0,0 +1,55 @@
+import { readJsonFile, writeJsonFile } from '@/lib/storage';
+
+// Progress of unfinished runs, one per sync scope, stored as checkpoints.json in the data
+// directory (see storage.ts). A run that dies or is cancelled leaves its checkpoint behind,
+// and the next run of the scope picks up from it instead of fetching and checking everything again.
+
+const CHECKPOINTS_FILE = 'checkpoints.json';
+
+export interface RunCheckpoint {
+    runId: string;
+    backfill: boolean;
+    startedAt: string;
+    updatedAt: string;
+    libraryVersion: number; // Saved for the scope once every item is done
+    itemKeys: string[]; // The run's items, in processing order
+    done: string[]; // Created, updated or skipped; failed items are tried again on resume
+    inFlight?: string; // Item being created when the run stopped; it may exist in the destination already
+    collectionPaths: Record<string, string>;
+    resumeVersions: Record<string, number>; // See sync.ts
+    childChangedKeys: string[];
+}
+
+// Updates are chained so a run's writes never overtake each other
+let writeQueue: Promise<void> = Promise.resolve();
+
+function update(change: (checkpoints: Record<string, RunCheckpoint>) => void): Promise<void> {
+    writeQueue = writeQueue
+        .then(async () => {
+            // Read every time: the CLI and the server may share the data directory
+            const checkpoints = await readJsonFile<Record<string, RunCheckpoint>>(CHECKPOINTS_FILE, {});
+            change(checkpoints);
+            await writeJsonFile(CHECKPOINTS_FILE, checkpoints);
+        })
+        .catch((error) => console.error('Failed to save run checkpoint:', error));
+    return writeQueue;
+}
+
+export async function getCheckpoint(scope: string): Promise<RunCheckpoint | undefined> {
+    await writeQueue;
+    const checkpoints = await readJsonFile<Record<string, RunCheckpoint>>(CHECKPOINTS_FILE, {});
+    return checkpoints[scope];
+}
+
+export function saveCheckpoint(scope: string, checkpoint: RunCheckpoint): Promise<void> {
+    const saved = { ...checkpoint, done: [...checkpoint.done], updatedAt: new Date().toISOString() };
+    return update((checkpoints) => {
+        checkpoints[scope] = saved;
+    });
+}
+
+export function clearCheckpoint(scope: string): Promise<void> {
+    return update((checkpoints) => {
+        delete checkpoints[scope];
+    });
+}
@@ -0,0 +1,104 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CITATION_SETTINGS, formatCitation } from '@/lib/citation';
+import { ZoteroItem } from '@/types/zotero';
+
+function item(data: Partial<ZoteroItem['data']>): ZoteroItem {
+    return {
+        key: 'ABCD1234',
+        version: 1,
+        data: { key: 'ABCD1234', version: 1, itemType: 'report', title: 'Untitled', creators: [], tags: [], ...data },
+    };
+}
+
+describe('formatCitation (APA)', () => {
+    test('ends an organisation author with a period', () => {
+        const report = item({
+            title: 'World health statistics 2020',
+            creators: [{ creatorType: 'author', name: 'World Health Organization' }],
+            date: '2020',
+            publisher: 'WHO',
+        });
+        assert.equal(
+            formatCitation(report, 'apa'),
+            'World Health Organization. (2020). *World health statistics 2020*. WHO.',
+        );
+    });
+
+    test('does not double the period after initials', () => {
+        const article = item({
+            itemType: 'journalArticle',
+            title: 'A study',
+            creators: [
+                { creatorType: 'author', firstName: 'Jane', lastName: 'Smith' },
+                { creatorType: 'author', firstName: 'John', lastName: 'Doe' },
+            ],
+            date: '2019-05-01',
+            publicationTitle: 'Journal',
+        });
+        assert.equal(formatCitation(article, 'apa'), 'Smith, J., & Doe, J. (2019). A study. *Journal*.');
+    });
+});
+
+describe('formatCitation (other styles)', () => {
+    const article = item({
+        itemType: 'journalArticle',
+        title: 'A study',
+        creators: [
+            { creatorType: 'author', firstName: 'Jane', lastName: 'Smith' },
+            { creatorType: 'author', firstName: 'John', lastName: 'Doe' },
+        ],
+        date: '2019',
+        publicationTitle: 'Journal',
+        volume: '12',
+        issue: '3',
+        pages: '1-10',
+    });
+
+    test('formats MLA', () => {
+        assert.equal(formatCitation(article, 'mla'), 'Smith, Jane, and John Doe. "A study." *Journal*, vol. 12, no. 3, 2019, pp. 1–10.');
+    });
+
+    test('formats Chicago author-date', () => {
+        assert.equal(formatCitation(article, 'chicago'), 'Smith, Jane, and John Doe. 2019. "A study." *Journal* 12 (3): 1–10.');
+    });
+
+    test('returns nothing for no style, the default', () => {
+        assert.equal(DEFAULT_CITATION_SETTINGS.style, 'none');
+        assert.equal(formatCitation(article, 'none'), '');
+    });
+});
+
+describe('formatCitation (BibTeX)', () => {
+    test('braces organisation authors so BibTeX keeps them whole', () => {
+        const report = item({
+            title: 'World health statistics',
+            creators: [
+                { creatorType: 'author', name: 'World Health Organization' },
+                { creatorType: 'author', firstName: 'Jane', lastName: 'Smith' },
+            ],
+            date: '2020',
+        });
+        assert.match(formatCitation(report, 'bibtex'), /^ {2}author = \{\{World Health Organization\} and Smith, Jane\},$/m);
+    });
+
+    test('escapes braces, backslashes and other LaTeX specials', () => {
+        const entry = formatCitation(item({
+            title: 'Costs {in} 50% of C:\\data_sets',
+            creators: [{ creatorType: 'author', firstName: 'Jane', lastName: 'Smith & Sons' }],
+            publisher: 'R&D ~ ^Press}',
+            url: 'https://example.com/a_b%20c',
+            date: '2020',
+        }), 'bibtex');
+        assert.equal(entry, [
+            '@techreport{smithsons2020costs,',
+            '  author = {Smith \\& Sons, Jane},',
+            '  title = {{Costs \\{in\\} 50\\% of C:\\textbackslash{}data\\_sets}},',
+            '  year = {2020},',
+            '  publisher = {R\\&D \\textasciitilde{} \\textasciicircum{}Press\\}},',
+            '  url = {https://example.com/a_b%20c}',
+            '}',
+        ].join('\n'));
+    });
+});
+
@@ -0,0 +1,279 @@
+import { extractCitationKey } from '@/lib/identity';
+import { ZoteroClient } from '@/lib/zotero';
+import { CitationSettings, CitationStyle } from '@/types/citation';
+import { ZoteroItem } from '@/types/zotero';
+
+export const CITATION_STYLES: Array<{ id: CitationStyle; label: string }> = [
+    { id: 'none', label: 'None' },
+    { id: 'apa', label: 'APA' },
+    { id: 'mla', label: 'MLA' },
+    { id: 'chicago', label: 'Chicago (author-date)' },
+    { id: 'bibtex', label: 'BibTeX' },
+];
+
+// Off until chosen, so existing notes don't gain a Citation section on upgrade
+export const DEFAULT_CITATION_SETTINGS: CitationSettings = {
+    style: 'none',
+    source: 'local',
+};
+
+// Zotero's CSL style IDs for the `style` parameter
+export const ZOTERO_CSL_STYLES: Partial<Record<CitationStyle, string>> = {
+    apa: 'apa',
+    mla: 'modern-language-association',
+    chicago: 'chicago-author-date',
+};
+
+// Item types cited by their own title in italics rather than through a container
+const STANDALONE_TYPES = ['book', 'thesis', 'report', 'webpage'];
+
+const BIBTEX_TYPES: Record<string, string> = {
+    journalArticle: 'article',
+    magazineArticle: 'article',
+    newspaperArticle: 'article',
+    book: 'book',
+    bookSection: 'incollection',
+    conferencePaper: 'inproceedings',
+    thesis: 'phdthesis',
+    report: 'techreport',
+};
+
+interface Person {
+    first: string;
+    last: string;
+    literal: boolean; // A single-field name, e.g. an organisation
+}
+
+// Authors, else editors, else whoever is listed
+function citedPeople(item: ZoteroItem): Person[] {
+    const creators = item.data.creators || [];
+    const authors = creators.filter((c) => c.creatorType === 'author');
+    const editors = creators.filter((c) => c.creatorType === 'editor');
+    const cited = authors.length > 0 ? authors : editors.length > 0 ? editors : creators;
+    return cited.map((c) => ({ first: c.firstName || '', last: c.lastName || c.name || '', literal: !c.lastName && !!c.name }));
+}
+
+function initials(first: string): string {
+    return first
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((part) => part.split('-').map((piece) => `${piece[0]}.`).join('-'))
+        .join(' ');
+}
+
+function inverted(person: Person, short = false): string {
+    if (!person.first) return person.last;
+    return `${person.last}, ${short ? initials(person.first) : person.first}`;
+}
+
+function direct(person: Person): string {
+    return person.first ? `${person.first} ${person.last}` : person.last;
+}
+
+// "a, b, & c" (APA) or "a, b, and c" (Chicago); two names keep the serial comma
+function joinNames(names: string[], conjunction: string): string {
+    if (names.length <= 1) return names[0] || '';
+    return `${names.slice(0, -1).join(', ')}, ${conjunction} ${names[names.length - 1]}`;
+}
+
+// Ends a citation element with a period unless it already ends in punctuation
+function sentence(text: string): string {
+    return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+function pageRange(pages: string | undefined, dash: string): string {
+    return (pages || '').replace(/\s*[-–—]+\s*/g, dash);
+}
+
+function link(item: ZoteroItem): string {
+    const doi = item.data.DOI?.trim().replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+    return doi ? `https://doi.org/${doi}` : item.data.url || '';
+}
+
+function formatApa(item: ZoteroItem): string {
+    const data = item.data;
+    const people = citedPeople(item);
+    const year = ZoteroClient.extractYear(data.date) || 'n.d.';
+    const parts: string[] = [];
+
+    // Initials already end the author element; organisation names need the period added
+    const authors = joinNames(people.map((p) => inverted(p, true)), '&');
+    parts.push(authors ? `${sentence(authors)} (${year}).` : `${sentence(data.title)} (${year}).`);
+    if (authors) {
+        parts.push(STANDALONE_TYPES.includes(data.itemType) ? sentence(`*${data.title}*`) : sentence(data.title));
+    }
+
+    if (data.itemType === 'bookSection') {
+        const pages = data.pages ? ` (pp. ${pageRange(data.pages, '–')})` : '';
+        if (data.bookTitle) parts.push(`In *${data.bookTitle}*${pages}.`);
+        if (data.publisher) parts.push(sentence(data.publisher));
+    } else if (STANDALONE_TYPES.includes(data.itemType)) {
+        const publisher = data.publisher || data.university;
+        if (publisher) parts.push(sentence(publisher));
+    } else if (data.publicationTitle) {
+        let source = `*${data.publicationTitle}*`;
+        if (data.volume) source += `, *${data.volume}*`;
+        if (data.issue) source += `(${data.issue})`;
+        if (data.pages) source += `, ${pageRange(data.pages, '–')}`;
+        parts.push(`${source}.`);
+    }
+
+    const url = link(item);
+    if (url) parts.push(url);
+    return parts.join(' ');
+}
+
+function formatMla(item: ZoteroItem): string {
+    const data = item.data;
+    const people = citedPeople(item);
+    const year = ZoteroClient.extractYear(data.date);
+    const parts: string[] = [];
+
+    if (people.length === 1) parts.push(sentence(inverted(people[0])));
+    if (people.length === 2) parts.push(sentence(`${inverted(people[0])}, and ${direct(people[1])}`));
+    if (people.length > 2) parts.push(`${inverted(people[0])}, et al.`);
+
+    const standalone = STANDALONE_TYPES.includes(data.itemType);
+    parts.push(standalone ? sentence(`*${data.title}*`) : `"${sentence(data.title)}"`);
+
+    const container = data.itemType === 'bookSection' ? data.bookTitle : data.publicationTitle;
+    const details = [
+        !standalone && container ? `*${container}*` : '',
+        data.volume ? `vol. ${data.volume}` : '',
+        data.issue ? `no. ${data.issue}` : '',
+        data.publisher || data.university || '',
+        year,
+        data.pages ? `pp. ${pageRange(data.pages, '–')}` : '',
+    ].filter(Boolean);
+    if (details.length > 0) parts.push(sentence(details.join(', ')));
+
+    const url = link(item);
+    if (url) parts.push(sentence(url));
+    return parts.join(' ');
+}
+
+function formatChicago(item: ZoteroItem): string {
+    const data = item.data;
+    const people = citedPeople(item);
+    const year = ZoteroClient.extractYear(data.date) || 'n.d.';
+    const parts: string[] = [];
+
+    const names = people.map((p, i) => (i === 0 ? inverted(p) : direct(p)));
+    if (names.length > 0) parts.push(sentence(joinNames(names, 'and')));
+    parts.push(`${year}.`);
+
+    const publisher = [data.place, data.publisher || data.university].filter(Boolean).join(': ');
+    if (STANDALONE_TYPES.includes(data.itemType)) {
+        parts.push(sentence(`*${data.title}*`));
+        if (publisher) parts.push(sentence(publisher));
+    } else if (data.itemType === 'bookSection') {
+        parts.push(`"${sentence(data.title)}"`);
+        if (data.bookTitle) parts.push(sentence(`In *${data.bookTitle}*${data.pages ? `, ${pageRange(data.pages, '–')}` : ''}`));
+        if (publisher) parts.push(sentence(publisher));
+    } else {
+        parts.push(`"${sentence(data.title)}"`);
+        if (data.publicationTitle) {
+            let source = `*${data.publicationTitle}*`;
+            if (data.volume) source += ` ${data.volume}`;
+            if (data.issue) source += ` (${data.issue})`;
+            if (data.pages) source += `: ${pageRange(data.pages, '–')}`;
+            parts.push(`${source}.`);
+        }
+    }
+
+    const url = link(item);
+    if (url) parts.push(sentence(url));
+    return parts.join(' ');
+}
+
+function bibtexKey(item: ZoteroItem): string {
+    const existing = extractCitationKey(item);
+    if (existing) return existing;
+
+    const [first] = citedPeople(item);
+    const word = (item.data.title || '').split(/\s+/).find((w) => w.length > 3) || '';
+    const key = `${first?.last || 'anon'}${ZoteroClient.extractYear(item.data.date)}${word}`;
+    return key.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase() || item.key;
+}
+
+const BIBTEX_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '{': '\\{',
+    '}': '\\}',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}',
+};
+
+// Characters LaTeX would otherwise read as markup, braces included so values can't close their field
+function bibtexEscape(value: string): string {
+    return value.replace(/[\\{}~^&%$#_]/g, (char) => BIBTEX_ESCAPES[char] ?? `\\${char}`);
+}
+
+function formatBibtex(item: ZoteroItem): string {
+    const data = item.data;
+    // Organisations are braced, so BibTeX doesn't read their last word as a surname
+    const authors = citedPeople(item).map((p) => (p.literal ? `{${bibtexEscape(p.last)}}` : bibtexEscape(inverted(p))));
+
+    // The title's extra braces keep its capitalisation
+    const fields: Array<[string, string | undefined]> = [
+        ['author', authors.join(' and ')],
+        ['title', data.title ? `{${bibtexEscape(data.title)}}` : undefined],
+        ['journal', ['journalArticle', 'magazineArticle', 'newspaperArticle'].includes(data.itemType) ? data.publicationTitle : undefined],
+        ['booktitle', data.bookTitle || (data.itemType === 'conferencePaper' ? data.publicationTitle : undefined)],
+        ['year', ZoteroClient.extractYear(data.date)],
+        ['volume', data.volume],
+        ['number', data.issue],
+        ['pages', data.pages ? pageRange(data.pages, '--') : undefined],
+        ['edition', data.edition],
+        ['series', data.series],
+        ['publisher', data.publisher],
+        [data.itemType === 'thesis' ? 'school' : 'institution', data.university],
+        ['address', data.place],
+        ['doi', data.DOI],
+        ['url', data.url],
+        ['isbn', data.ISBN],
+        ['issn', data.ISSN],
+    ];
+
+    // Authors and title are escaped above, URLs and DOIs are kept as they are
+    const verbatim = ['author', 'title', 'url', 'doi'];
+    const body = fields
+        .filter(([, value]) => value)
+        .map(([name, value]) => `  ${name} = {${verbatim.includes(name) ? value : bibtexEscape(value!)}}`)
+        .join(',\n');
+    return `@${BIBTEX_TYPES[data.itemType] || 'misc'}{${bibtexKey(item)},\n${body}\n}`;
+}
+
+/**
+ * Formats a reference for the item in the given style. APA, MLA and Chicago use
+ * markdown italics; BibTeX is returned as a plain entry.
+ */
+export function formatCitation(item: ZoteroItem, style: CitationStyle): string {
+    switch (style) {
+        case 'apa':
+            return formatApa(item);
+        case 'mla':
+            return formatMla(item);
+        case 'chicago':
+            return formatChicago(item);
+        case 'bibtex':
+            return formatBibtex(item);
+        default:
+            return '';
+    }
+}
+
+/**
+ * The citation as it goes into a note: BibTeX in a code block, other styles as is
+ */
+export function citationMarkdown(citation: string, style: CitationStyle): string {
+    if (!citation) return '';
+    return style === 'bibtex' ? `\`\`\`bibtex\n${citation}\n\`\`\`` : citation;
+}
+
+/**
+ * The citation for a Craft text property, without markdown emphasis
+ */
+export function citationPlainText(citation: string): string {
+    return citation.replace(/\*([^*]+)\*/g, '$1');
+}
@@ -0,0 +1,70 @@
+import { CraftClient } from '@/lib/craft';
+import { HttpClient } from '@/lib/http';
+import { CraftCollectionItem, CraftConfig, CraftProperty } from '@/types/craft';
+import { Destination, DestinationNote } from '@/types/destination';
+
+/**
+ * Writes notes to the target Craft collection, or as cards in the parent document
+ * when no collection is selected
+ */
+export class CraftDestination implements Destination {
+    readonly label = 'Craft';
+    readonly scope: string;
+    private client: CraftClient;
+
+    constructor(private config: CraftConfig, http?: HttpClient) {
+        this.client = new CraftClient(config, http);
+        // Per collection or document: switching the target syncs everything into the new one
+        this.scope = `craft:${config.targetCollectionId || config.parentDocumentId}`;
+    }
+
+    async getProperties(): Promise<CraftProperty[]> {
+        if (!this.config.targetCollectionId) return [];
+        return this.client.getCollectionProperties(this.config.targetCollectionId);
+    }
+
+    async getItems(): Promise<CraftCollectionItem[] | null> {
+        if (this.config.targetCollectionId) {
+            return this.client.getCollectionItems(this.config.targetCollectionId);
+        }
+        // Cards in the parent document carry no properties, only their title
+        const blocks = await this.client.getPageBlocks(this.config.parentDocumentId);
+        return blocks
+            .filter((block) => block.type === 'page' && block.id)
+            .map((block) => ({ id: block.id!, title: block.markdown?.trim() }));
+    }
+
+    async addSelectOptions(propertyKey: string, options: string[]): Promise<string[]> {
+        if (!this.config.targetCollectionId) throw new Error('No target collection selected');
+        return this.client.addSelectOptions(this.config.targetCollectionId, propertyKey, options);
+    }
+
+    async createItem(note: DestinationNote): Promise<string> {
+        if (this.config.targetCollectionId) {
+            return this.client.createCollectionItem(this.config.targetCollectionId, note.title, note.markdownBody, note.properties);
+        }
+        // Fallback to creating sub-page
+        return this.client.createNote(note.title, note.markdownBody, note.tags);
+    }
+
+    async repairBody(id: string, markdownBody: string): Promise<boolean> {
+        // Any text on the page means the body was written after all (or the user has since added to it)
+        const blocks = await this.client.getPageBlocks(id);
+        if (blocks.some((block) => block.markdown?.trim())) return false;
+        await this.client.addPageContent(id, markdownBody);
+        return true;
+    }
+
+    async updateItem(id: string, title: string, properties: Record<string, unknown>): Promise<void> {
+        if (!this.config.targetCollectionId) return;
+        await this.client.updateCollectionItem(this.config.targetCollectionId, id, title, properties);
+    }
+
+    async updateMetadataHeader(id: string, header: Record<string, string>): Promise<void> {
+        await this.client.updateMetadataHeader(id, header);
+    }
+
+    async appendToSection(id: string, heading: string, markdown: string): Promise<void> {
+        await this.client.appendToSection(id, heading, markdown);
+    }
+}
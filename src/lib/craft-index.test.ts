@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CraftDestination } from '@/lib/craft-destination';
+import { CraftItemIndex } from '@/lib/craft-index';
+import { HttpClient } from '@/lib/http';
+import { CraftBlock, CraftCollectionItem } from '@/types/craft';
+
+// Serves a collection's items and the parent document's blocks
+class FakeCraft extends HttpClient {
+    constructor(private items: CraftCollectionItem[], private blocks: CraftBlock[]) {
+        super();
+    }
+
+    async fetch(url: string): Promise<Response> {
+        if (url.includes('/collections/')) return Response.json({ items: this.items });
+        return Response.json({ id: 'DOC', type: 'page', content: this.blocks });
+    }
+}
+
+const identity = { zoteroKey: 'ABCD1234' };
+
+describe('CraftItemIndex', () => {
+    test('matches document cards by title', async () => {
+        const http = new FakeCraft([], [
+            { id: 'INTRO', type: 'text', markdown: 'Reading notes' },
+            { id: 'CARD', type: 'page', textStyle: 'card', markdown: 'A study of things' },
+        ]);
+        const destination = new CraftDestination({ linkId: 'LINK', parentDocumentId: 'DOC' }, http);
+        const index = await CraftItemIndex.load(destination, {});
+
+        assert.equal(index?.size, 1);
+        assert.deepEqual(index?.find(identity, ' A study of things '), {
+            item: { id: 'CARD', title: 'A study of things' },
+            matchedBy: 'title',
+        });
+        assert.equal(index?.find(identity, 'Reading notes'), null);
+    });
+
+    test('matches collection items by title when the collection has no Zotero key property', async () => {
+        const http = new FakeCraft([{ id: 'ITEM', title: 'A study of things', properties: {} }], []);
+        const destination = new CraftDestination({ linkId: 'LINK', parentDocumentId: 'DOC', targetCollectionId: 'COLL' }, http);
+        const index = await CraftItemIndex.load(destination, {});
+
+        assert.equal(index?.find(identity, 'A study of things')?.matchedBy, 'title');
+    });
+
+    test('matches collection items only by identifier when the Zotero key property exists', async () => {
+        const http = new FakeCraft([
+            { id: 'OTHER', title: 'A study of things', properties: { zk: 'OTHERKEY' } },
+            { id: 'ITEM', title: 'Renamed in Craft', properties: { zk: 'ABCD1234' } },
+        ], []);
+        const destination = new CraftDestination({ linkId: 'LINK', parentDocumentId: 'DOC', targetCollectionId: 'COLL' }, http);
+        const index = await CraftItemIndex.load(destination, { zoteroKey: 'zk' });
+
+        assert.deepEqual(index?.find(identity, 'A study of things'), {
+            item: { id: 'ITEM', title: 'Renamed in Craft', properties: { zk: 'ABCD1234' } },
+            matchedBy: 'zoteroKey',
+        });
+        assert.equal(index?.find({ zoteroKey: 'NEWKEY' }, 'A study of things'), null);
+    });
+
+    test('matches items added during the run', () => {
+        const index = new CraftItemIndex([], {});
+        index.add({ id: 'NEW', title: 'Created earlier in this run' });
+        assert.equal(index.find(identity, 'Created earlier in this run')?.item.id, 'NEW');
+    });
+});
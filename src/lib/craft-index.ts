@@ -0,0 +1,73 @@
+import { IDENTITY_PROPERTIES, IdentityField, identityValue, ItemIdentity } from '@/lib/identity';
+import { CraftCollectionItem } from '@/types/craft';
+import { Destination } from '@/types/destination';
+
+// What an existing item was matched by: an identifier, or its title when there is no Zotero key to go by
+export type MatchedBy = IdentityField | 'title';
+
+/**
+ * In-memory index of a destination's items by identifier, loaded once per sync run.
+ * Lookups are constant time, so a run costs one collection download however many items it
+ * processes. Items created during the run are added so later duplicates in the batch match.
+ */
+export class CraftItemIndex {
+    private byField = new Map<IdentityField, Map<string, CraftCollectionItem>>();
+    private byTitle = new Map<string, CraftCollectionItem>();
+    private count = 0;
+
+    constructor(
+        items: CraftCollectionItem[],
+        private propertyKeys: Partial<Record<IdentityField, string>>
+    ) {
+        for (const field of Object.keys(IDENTITY_PROPERTIES) as IdentityField[]) {
+            this.byField.set(field, new Map());
+        }
+        items.forEach((item) => this.add(item));
+    }
+
+    /**
+     * Indexes the destination's items; undefined if it can't list them
+     */
+    static async load(
+        destination: Destination,
+        propertyKeys: Partial<Record<IdentityField, string>>
+    ): Promise<CraftItemIndex | undefined> {
+        const items = await destination.getItems();
+        return items ? new CraftItemIndex(items, propertyKeys) : undefined;
+    }
+
+    get size(): number {
+        return this.count;
+    }
+
+    add(item: CraftCollectionItem): void {
+        this.count++;
+        for (const [field, map] of this.byField) {
+            const propertyKey = this.propertyKeys[field];
+            const value = propertyKey ? identityValue(field, item.properties?.[propertyKey]) : undefined;
+            // First one wins, matching what a scan in collection order would find
+            if (value && !map.has(value)) map.set(value, item);
+        }
+        const title = item.title?.trim();
+        if (title && !this.byTitle.has(title)) this.byTitle.set(title, item);
+    }
+
+    /**
+     * Finds the item carrying the same identifier, trying the Zotero key first, then DOI,
+     * then citation key. Identifiers the collection has no property for are not checked.
+     * Without a Zotero key property (document cards, or a collection that lacks it), items
+     * created by earlier versions can only be told apart by title, so the title is tried last.
+     */
+    find(identity: ItemIdentity, title: string): { item: CraftCollectionItem; matchedBy: MatchedBy } | null {
+        for (const [field, map] of this.byField) {
+            const wanted = identity[field];
+            const item = wanted ? map.get(wanted) : undefined;
+            if (item) return { item, matchedBy: field };
+        }
+        if (!this.propertyKeys.zoteroKey) {
+            const item = this.byTitle.get(title.trim());
+            if (item) return { item, matchedBy: 'title' };
+        }
+        return null;
+    }
+}
@@ -0,0 +1,52 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CraftClient } from '@/lib/craft';
+import { HttpClient } from '@/lib/http';
+import { CraftBlock } from '@/types/craft';
+
+// Serves a page's blocks and records what gets posted
+class FakeCraft extends HttpClient {
+    posted: Array<Record<string, unknown>> = [];
+
+    constructor(private blocks: CraftBlock[]) {
+        super();
+    }
+
+    async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+        if (init.method === 'POST') {
+            this.posted.push(JSON.parse(String(init.body)));
+            return Response.json({ items: [] });
+        }
+        return Response.json({ id: 'PAGE', type: 'page', content: this.blocks });
+    }
+}
+
+describe('CraftClient.appendToSection', () => {
+    test('finds a section whose heading block has text under it', async () => {
+        const http = new FakeCraft([
+            { id: 'META', type: 'text', markdown: '**Authors:** Doe, J.' },
+            { id: 'QUOTES', type: 'text', markdown: '## Quotes\n> First highlight' },
+            { id: 'NOTES', type: 'text', markdown: '## Notes\nA note' },
+        ]);
+        const client = new CraftClient({ linkId: 'LINK', parentDocumentId: 'DOC' }, http);
+
+        await client.appendToSection('PAGE', 'Quotes', '> Second highlight');
+
+        assert.deepEqual(http.posted, [{
+            blocks: [{ type: 'text', markdown: '> Second highlight' }],
+            position: { position: 'before', blockId: 'NOTES' },
+        }]);
+    });
+
+    test('adds the section at the end of the page when it is missing', async () => {
+        const http = new FakeCraft([{ id: 'NOTES', type: 'text', markdown: '## Notes\nA note' }]);
+        const client = new CraftClient({ linkId: 'LINK', parentDocumentId: 'DOC' }, http);
+
+        await client.appendToSection('PAGE', 'Quotes', '> Highlight');
+
+        assert.deepEqual(http.posted, [{
+            blocks: [{ type: 'text', markdown: '## Quotes\n> Highlight' }],
+            position: { position: 'end', pageId: 'PAGE' },
+        }]);
+    });
+});
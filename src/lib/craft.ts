@@ -1,11 +1,28 @@
-import { CraftConfig, CraftBlock, CraftResponse } from '@/types/craft';
+import { HttpClient } from '@/lib/http';
+import { CraftConfig, CraftBlock, CraftCollectionItem, CraftProperty, CraftResponse } from '@/types/craft';
+
+const COLLECTION_PAGE_SIZE = 100;
+
+/**
+ * A collection item was created, but adding its content failed. Carries the new item's ID
+ * so the caller can record it and fill in the content later instead of creating it again.
+ */
+export class IncompleteItemError extends Error {
+    constructor(readonly itemId: string, cause: unknown) {
+        const message = cause instanceof Error ? cause.message : String(cause);
+        super(`Created the item, but failed to add its content: ${message}`, { cause });
+        this.name = 'IncompleteItemError';
+    }
+}
 
 export class CraftClient {
     private config: CraftConfig;
     private apiBase: string;
+    private http: HttpClient;
 
-    constructor(config: CraftConfig) {
+    constructor(config: CraftConfig, http: HttpClient = new HttpClient()) {
         this.config = config;
+        this.http = http;
         // The link ID in the URL IS the authentication - no separate bearer token needed
         this.apiBase = `https://connect.craft.do/links/${config.linkId}/api/v1`;
     }
@@ -19,7 +36,7 @@ export class CraftClient {
     async testConnection(): Promise<boolean> {
         try {
             // Fetch documents list to verify access
-            const response = await fetch(`${this.apiBase}/documents?limit=1`, {
+            const response = await this.http.fetch(`${this.apiBase}/documents?limit=1`, {
                 headers: this.getHeaders(),
             });
             return response.ok;
@@ -51,7 +68,7 @@ export class CraftClient {
                 ]
             };
 
-            const response = await fetch(`${this.apiBase}/blocks`, {
+            const response = await this.http.fetch(`${this.apiBase}/blocks`, {
                 method: 'POST',
                 headers: this.getHeaders(),
                 body: JSON.stringify({
@@ -84,7 +101,7 @@ export class CraftClient {
 
     async getCollections(): Promise<import('@/types/craft').CraftCollection[]> {
         try {
-            const response = await fetch(`${this.apiBase}/collections`, {
+            const response = await this.http.fetch(`${this.apiBase}/collections`, {
                 headers: this.getHeaders(),
             });
 
@@ -100,49 +117,39 @@ export class CraftClient {
         }
     }
 
-    async checkItemExists(collectionId: string | undefined, title: string): Promise<boolean> {
-        try {
-            // Check in collection if collectionId provided, otherwise check in parent document
-            if (collectionId) {
-                // Get items from collection
-                const response = await fetch(`${this.apiBase}/collections/${collectionId}/items`, {
-                    headers: this.getHeaders(),
-                });
+    /**
+     * Fetches every item in a collection, following `offset` paging
+     */
+    async getCollectionItems(collectionId: string): Promise<CraftCollectionItem[]> {
+        const items: CraftCollectionItem[] = [];
+        const seen = new Set<string>();
 
-                if (!response.ok) {
-                    console.error(`Failed to fetch collection items: ${response.statusText}`);
-                    return false;
-                }
-
-                const data = await response.json();
-                const items = data.items || [];
-
-                // Check if any item has matching title
-                return items.some((item: any) => item.title?.trim() === title.trim());
-            } else if (this.config.parentDocumentId) {
-                // Get blocks from parent document
-                const response = await fetch(`${this.apiBase}/documents/${this.config.parentDocumentId}`, {
-                    headers: this.getHeaders(),
-                });
+        try {
+            while (true) {
+                const response = await this.http.fetch(
+                    `${this.apiBase}/collections/${collectionId}/items?limit=${COLLECTION_PAGE_SIZE}&offset=${items.length}`,
+                    {
+                        headers: this.getHeaders(),
+                    }
+                );
 
                 if (!response.ok) {
-                    console.error(`Failed to fetch document: ${response.statusText}`);
-                    return false;
+                    throw new Error(`Failed to fetch Craft collection items: ${response.status} ${response.statusText}`);
                 }
 
-                const data = await response.json();
-                const blocks = data.blocks || [];
+                const data: CraftResponse<CraftCollectionItem> = await response.json();
+                const page = (data.items || []).filter((item) => !seen.has(item.id));
+                page.forEach((item) => seen.add(item.id));
+                items.push(...page);
 
-                // Check if any block/page has matching title (in markdown)
-                return blocks.some((block: any) =>
-                    block.type === 'page' && block.markdown?.trim() === title.trim()
-                );
+                // A short page is the last one; a page of repeats means paging isn't applied
+                if (page.length < COLLECTION_PAGE_SIZE) break;
             }
 
-            return false;
+            return items;
         } catch (error) {
-            console.error('Error checking item existence:', error);
-            return false; // On error, assume doesn't exist to allow creation
+            console.error('Error fetching Craft collection items:', error);
+            throw error;
         }
     }
 
@@ -150,7 +157,7 @@ export class CraftClient {
         try {
             // Fetch schema with default format (json-schema-items is default but we want the edit schema structure to see display names)
             // Actually the docs say format='schema' returns structure with names/keys
-            const response = await fetch(`${this.apiBase}/collections/${collectionId}/schema?format=schema`, {
+            const response = await this.http.fetch(`${this.apiBase}/collections/${collectionId}/schema?format=schema`, {
                 headers: this.getHeaders(),
             });
 
@@ -166,6 +173,96 @@ export class CraftClient {
         }
     }
 
+    /**
+     * The collection's properties (name, key, type, select options), from its schema
+     */
+    async getCollectionProperties(collectionId: string): Promise<CraftProperty[]> {
+        const schema = await this.getCollectionSchema(collectionId);
+        if (!schema) {
+            throw new Error('Failed to fetch collection schema');
+        }
+
+        return (schema.properties || []).map((prop: CraftProperty) => ({
+            name: prop.name,
+            key: prop.key,
+            type: prop.type,
+            options: prop.options, // For single-select or multi-select fields
+        }));
+    }
+
+    /**
+     * Adds options to a select or multiSelect property by writing back the collection schema.
+     * Options the property already has (compared case-insensitively) are left out.
+     * Returns the property's full option list afterwards.
+     */
+    async addSelectOptions(collectionId: string, propertyKey: string, options: string[]): Promise<string[]> {
+        try {
+            const schema = await this.getCollectionSchema(collectionId);
+            if (!schema) {
+                throw new Error('Failed to fetch collection schema');
+            }
+
+            const property = (schema.properties || []).find((prop: CraftProperty) => prop.key === propertyKey);
+            if (!property || (property.type !== 'select' && property.type !== 'multiSelect')) {
+                throw new Error(`Property '${propertyKey}' is not a select property`);
+            }
+
+            const existing: string[] = property.options || [];
+            const known = new Set(existing.map((opt) => opt.toLowerCase()));
+            const added = options.filter((opt) => !known.has(opt.toLowerCase()));
+            if (added.length === 0) return existing;
+
+            property.options = [...existing, ...added];
+            await this.updateCollectionSchema(collectionId, schema);
+
+            return property.options;
+        } catch (error) {
+            console.error('Error adding Craft select options:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Adds properties to the collection schema; Craft assigns their keys.
+     * Properties whose name already exists are left out.
+     */
+    async addCollectionProperties(collectionId: string, properties: Array<Omit<CraftProperty, 'key'>>): Promise<CraftProperty[]> {
+        try {
+            const schema = await this.getCollectionSchema(collectionId);
+            if (!schema) {
+                throw new Error('Failed to fetch collection schema');
+            }
+
+            const existing: CraftProperty[] = schema.properties || [];
+            const added = properties.filter((prop) => !existing.some((e) => e.name === prop.name));
+            if (added.length === 0) return [];
+
+            schema.properties = [...existing, ...added];
+            await this.updateCollectionSchema(collectionId, schema);
+
+            // Re-read to learn the keys Craft gave the new properties
+            const updated = await this.getCollectionProperties(collectionId);
+            return updated.filter((prop) => added.some((a) => a.name === prop.name));
+        } catch (error) {
+            console.error('Error adding Craft collection properties:', error);
+            throw error;
+        }
+    }
+
+    // Writes back a schema as returned by getCollectionSchema
+    private async updateCollectionSchema(collectionId: string, schema: unknown): Promise<void> {
+        const response = await this.http.fetch(`${this.apiBase}/collections/${collectionId}/schema`, {
+            method: 'PUT',
+            headers: this.getHeaders(),
+            body: JSON.stringify(schema),
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Failed to update Craft collection schema: ${response.status} ${errorText}`);
+        }
+    }
+
     async createCollectionItem(
         collectionId: string,
         title: string,
@@ -174,7 +271,7 @@ export class CraftClient {
     ): Promise<string> {
         try {
             // Step 1: Create the item in the collection
-            const createResponse = await fetch(`${this.apiBase}/collections/${collectionId}/items`, {
+            const createResponse = await this.http.fetch(`${this.apiBase}/collections/${collectionId}/items`, {
                 method: 'POST',
                 headers: this.getHeaders(),
                 body: JSON.stringify({
@@ -200,7 +297,23 @@ export class CraftClient {
             }
 
             // Step 2: Add content to the item
-            const contentResponse = await fetch(`${this.apiBase}/blocks`, {
+            try {
+                await this.addPageContent(newItemId, contentMarkdown);
+            } catch (error) {
+                throw new IncompleteItemError(newItemId, error);
+            }
+
+            return newItemId;
+        } catch (error) {
+            console.error('Error creating Craft collection item:', error);
+            throw error;
+        }
+    }
+
+    // Adds markdown as a text block at the end of a page
+    async addPageContent(pageId: string, contentMarkdown: string): Promise<void> {
+        try {
+            const response = await this.http.fetch(`${this.apiBase}/blocks`, {
                 method: 'POST',
                 headers: this.getHeaders(),
                 body: JSON.stringify({
@@ -212,20 +325,181 @@ export class CraftClient {
                     ],
                     position: {
                         position: 'end',
-                        pageId: newItemId
+                        pageId
                     }
                 })
             });
 
-            if (!contentResponse.ok) {
-                const errorText = await contentResponse.text();
-                console.error(`Failed to populate content for item ${newItemId}: ${contentResponse.status} ${errorText}`);
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Failed to add content to Craft page ${pageId}: ${response.status} ${errorText}`);
             }
+        } catch (error) {
+            console.error('Error adding Craft page content:', error);
+            throw error;
+        }
+    }
 
-            return newItemId;
+    async updateCollectionItem(
+        collectionId: string,
+        itemId: string,
+        title: string,
+        properties: Record<string, unknown> = {}
+    ): Promise<void> {
+        try {
+            const response = await this.http.fetch(`${this.apiBase}/collections/${collectionId}/items`, {
+                method: 'PUT',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    itemsToUpdate: [
+                        {
+                            id: itemId,
+                            title: title,
+                            properties: properties
+                        }
+                    ]
+                })
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Failed to update Craft collection item: ${response.status} ${errorText}`);
+            }
         } catch (error) {
-            console.error('Error creating Craft collection item:', error);
+            console.error('Error updating Craft collection item:', error);
+            throw error;
+        }
+    }
+
+    async getPageBlocks(pageId: string): Promise<CraftBlock[]> {
+        try {
+            const response = await this.http.fetch(`${this.apiBase}/blocks?id=${pageId}`, {
+                headers: this.getHeaders(),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Failed to fetch Craft page: ${response.status} ${response.statusText}`);
+            }
+
+            const page: CraftBlock = await response.json();
+            return page.content || [];
+        } catch (error) {
+            console.error('Error fetching Craft page blocks:', error);
+            throw error;
+        }
+    }
+
+    async updateBlocks(blocks: Array<{ id: string; markdown: string }>): Promise<void> {
+        try {
+            const response = await this.http.fetch(`${this.apiBase}/blocks`, {
+                method: 'PUT',
+                headers: this.getHeaders(),
+                body: JSON.stringify({ blocks }),
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Failed to update Craft blocks: ${response.status} ${errorText}`);
+            }
+        } catch (error) {
+            console.error('Error updating Craft blocks:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Rewrites the "**Label:** value" lines of the metadata header at the top of a note.
+     * Stops at the first heading, so the user-written sections (Key Ideas, Quotes, ...)
+     * are never touched. Returns the number of blocks changed.
+     */
+    async updateMetadataHeader(pageId: string, header: Record<string, string>): Promise<number> {
+        const blocks = await this.getPageBlocks(pageId);
+        const updates: Array<{ id: string; markdown: string }> = [];
+
+        for (const block of blocks) {
+            if (!block.id || block.markdown === undefined) continue;
+            if (headingText(block) !== null) break;
+
+            const lines = block.markdown.split('\n');
+            let reachedHeading = false;
+            let changed = false;
+
+            for (let i = 0; i < lines.length; i++) {
+                if (/^#{1,6}\s/.test(lines[i])) {
+                    reachedHeading = true;
+                    break;
+                }
+
+                const match = lines[i].match(/^\*\*([^*]+):\*\*/);
+                if (match && match[1] in header) {
+                    const line = `**${match[1]}:** ${header[match[1]]}`;
+                    if (line !== lines[i]) {
+                        lines[i] = line;
+                        changed = true;
+                    }
+                }
+            }
+
+            if (changed) {
+                updates.push({ id: block.id, markdown: lines.join('\n') });
+            }
+            if (reachedHeading) break;
+        }
+
+        if (updates.length > 0) {
+            await this.updateBlocks(updates);
+        }
+        return updates.length;
+    }
+
+    /**
+     * Appends markdown to the end of a "## Heading" section of a note, i.e. just before
+     * the next heading. If the note has no such section, one is added at the end.
+     */
+    async appendToSection(pageId: string, heading: string, markdown: string): Promise<void> {
+        const blocks = await this.getPageBlocks(pageId);
+        const start = blocks.findIndex((block) => headingText(block) === heading);
+        const next = start === -1
+            ? undefined
+            : blocks.slice(start + 1).find((block) => block.id && headingText(block) !== null);
+
+        const position: CraftBlock['position'] = next?.id
+            ? { position: 'before', blockId: next.id }
+            : { position: 'end', pageId };
+        const content = start === -1 ? `## ${heading}\n${markdown}` : markdown;
+
+        try {
+            const response = await this.http.fetch(`${this.apiBase}/blocks`, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    blocks: [
+                        {
+                            type: 'text',
+                            markdown: content
+                        }
+                    ],
+                    position
+                })
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Failed to append to Craft section '${heading}': ${response.status} ${errorText}`);
+            }
+        } catch (error) {
+            console.error('Error appending to Craft section:', error);
             throw error;
         }
     }
 }
+
+// Text of a heading block ("## Quotes" or a block styled h1-h4), null for other blocks.
+// Only the first line counts: a block may carry the text under its heading too.
+function headingText(block: CraftBlock): string | null {
+    const firstLine = (block.markdown?.trim() || '').split('\n')[0];
+    const match = firstLine.match(/^#{1,6}\s+(.*)$/);
+    if (match) return match[1].trim();
+    if (block.textStyle && /^h\d$/.test(block.textStyle)) return firstLine.trim();
+    return null;
+}
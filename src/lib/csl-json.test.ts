@@ -0,0 +1,65 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCslJson } from '@/lib/csl-json';
+
+describe('parseCslJson', () => {
+    test('reads names, date parts and the citation key', () => {
+        const { items, errors } = parseCslJson(JSON.stringify([{
+            id: 'ITEM-1',
+            'citation-key': 'smith2020',
+            type: 'article-journal',
+            title: 'A study',
+            author: [{ family: 'Smith', given: 'Jane' }, { literal: 'World Health Organization' }],
+            issued: { 'date-parts': [[2020, 3, 7]] },
+            'container-title': 'Journal',
+            volume: 12,
+            keyword: 'alpha, beta',
+        }]), 1);
+
+        assert.deepEqual(errors, []);
+        const data = items[0].data;
+        assert.equal(data.itemType, 'journalArticle');
+        assert.deepEqual(data.creators, [
+            { creatorType: 'author', lastName: 'Smith', firstName: 'Jane' },
+            { creatorType: 'author', name: 'World Health Organization' },
+        ]);
+        assert.equal(data.date, '2020-03-07');
+        assert.equal(data.publicationTitle, 'Journal');
+        assert.equal(data.volume, '12');
+        assert.equal(data.citationKey, 'smith2020');
+        assert.deepEqual(data.tags, [{ tag: 'alpha' }, { tag: 'beta' }]);
+    });
+
+    test('accepts a single item and an { items } wrapper', () => {
+        const single = parseCslJson(JSON.stringify({ type: 'book', title: 'One', issued: { raw: 'Spring 2001' } }), 1);
+        const wrapped = parseCslJson(JSON.stringify({ items: [{ type: 'chapter', title: 'Two', 'container-title': 'Book' }] }), 1);
+
+        assert.equal(single.items[0].data.date, 'Spring 2001');
+        assert.equal(wrapped.items[0].data.bookTitle, 'Book');
+    });
+
+    test('does not use the generic id as a citation key', () => {
+        const a = parseCslJson(JSON.stringify([{ id: '1', title: 'First' }]), 1).items[0];
+        const b = parseCslJson(JSON.stringify([{ id: '1', title: 'Second' }]), 1).items[0];
+        assert.equal(a.data.citationKey, undefined);
+        assert.notEqual(a.key, b.key);
+    });
+
+    test('fails the whole file on invalid JSON', () => {
+        const { items, errors } = parseCslJson('[{"title": "A study",]', 1);
+        assert.deepEqual(items, []);
+        assert.equal(errors.length, 1);
+        assert.equal(errors[0].entry, 'File');
+        assert.match(errors[0].message, /^Invalid JSON: /);
+    });
+
+    test('reports entries that are not objects or have no title', () => {
+        const { items, errors } = parseCslJson(JSON.stringify([null, 'text', { 'citation-key': 'untitled' }, { title: 'Kept' }]), 1);
+        assert.deepEqual(items.map((item) => item.data.title), ['Kept']);
+        assert.deepEqual(errors, [
+            { entry: 'Item 1', message: 'Not a CSL-JSON object' },
+            { entry: 'Item 2', message: 'Not a CSL-JSON object' },
+            { entry: 'untitled', message: 'Missing title' },
+        ]);
+    });
+});
@@ -0,0 +1,129 @@
+// Reads CSL-JSON (Zotero/Better BibTeX "CSL JSON" export, citeproc data, pandoc) into ZoteroItemData.
+
+import { formatDateParts, ImportedFields, toImportedItem } from '@/lib/import-item';
+import { ImportError } from '@/types/import';
+import { ZoteroItem } from '@/types/zotero';
+
+const ITEM_TYPES: Record<string, string> = {
+    'article-journal': 'journalArticle',
+    'article-magazine': 'magazineArticle',
+    'article-newspaper': 'newspaperArticle',
+    article: 'preprint',
+    book: 'book',
+    chapter: 'bookSection',
+    'paper-conference': 'conferencePaper',
+    thesis: 'thesis',
+    report: 'report',
+    webpage: 'webpage',
+    'post-weblog': 'blogPost',
+    manuscript: 'manuscript',
+    dataset: 'dataset',
+};
+
+interface CslName {
+    family?: string;
+    given?: string;
+    literal?: string;
+}
+
+interface CslDate {
+    'date-parts'?: Array<Array<string | number>>;
+    raw?: string;
+    literal?: string;
+}
+
+type CslItem = Record<string, unknown>;
+
+function text(value: unknown): string | undefined {
+    if (typeof value === 'string') return value.trim() || undefined;
+    if (typeof value === 'number') return String(value);
+    return undefined;
+}
+
+function names(value: unknown, creatorType: string): NonNullable<ImportedFields['creators']> {
+    if (!Array.isArray(value)) return [];
+    return (value as CslName[]).map((person) =>
+        person.family
+            ? { creatorType, lastName: person.family, firstName: person.given || '' }
+            : { creatorType, name: person.literal || person.given || '' }
+    );
+}
+
+function date(value: unknown): string | undefined {
+    if (!value || typeof value !== 'object') return text(value);
+    const parsed = value as CslDate;
+    const [parts] = parsed['date-parts'] || [];
+    if (parts?.length) return formatDateParts(parts[0], parts[1], parts[2]);
+    return parsed.raw || parsed.literal;
+}
+
+function toFields(item: CslItem): ImportedFields {
+    const itemType = ITEM_TYPES[text(item.type) || ''] || 'document';
+    const container = text(item['container-title']);
+    const keywords = text(item.keyword) || '';
+
+    return {
+        itemType,
+        title: text(item.title) || '',
+        creators: [...names(item.author, 'author'), ...names(item.editor, 'editor')],
+        date: date(item.issued),
+        publicationTitle: itemType === 'bookSection' ? undefined : container,
+        bookTitle: itemType === 'bookSection' ? container : undefined,
+        publisher: itemType === 'thesis' ? undefined : text(item.publisher),
+        university: itemType === 'thesis' ? text(item.publisher) : undefined,
+        place: text(item['publisher-place']),
+        volume: text(item.volume),
+        issue: text(item.issue),
+        pages: text(item.page),
+        edition: text(item.edition),
+        series: text(item['collection-title']),
+        language: text(item.language),
+        url: text(item.URL),
+        DOI: text(item.DOI),
+        ISBN: text(item.ISBN),
+        ISSN: text(item.ISSN),
+        abstractNote: text(item.abstract),
+        // Only Better BibTeX's "citation-key": `id` is often just "1" or "ITEM-1", which would give
+        // entries of different files the same import key. Without it the title and year identify the entry.
+        citationKey: text(item['citation-key']),
+        tags: keywords.split(/[,;]/),
+    };
+}
+
+/**
+ * Parses CSL-JSON: an array of items, a single item, or `{ items: [...] }`.
+ * Items without a title are reported in `errors`; malformed JSON fails the whole file.
+ */
+export function parseCslJson(content: string, version: number): { items: ZoteroItem[]; errors: ImportError[] } {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch (e: unknown) {
+        return { items: [], errors: [{ entry: 'File', message: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` }] };
+    }
+
+    const list: unknown[] = Array.isArray(parsed)
+        ? parsed
+        : Array.isArray((parsed as { items?: unknown })?.items)
+          ? (parsed as { items: unknown[] }).items
+          : [parsed];
+
+    const items: ZoteroItem[] = [];
+    const errors: ImportError[] = [];
+
+    list.forEach((entry, i) => {
+        if (!entry || typeof entry !== 'object') {
+            errors.push({ entry: `Item ${i + 1}`, message: 'Not a CSL-JSON object' });
+            return;
+        }
+        const fields = toFields(entry as CslItem);
+        const label = fields.citationKey || `Item ${i + 1}`;
+        if (!fields.title) {
+            errors.push({ entry: label, message: 'Missing title' });
+            return;
+        }
+        items.push(toImportedItem(fields, version));
+    });
+
+    return { items, errors };
+}
@@ -0,0 +1,64 @@
+import path from 'path';
+import { CraftDestination } from '@/lib/craft-destination';
+import { HttpClient } from '@/lib/http';
+import { IDENTITY_PROPERTIES } from '@/lib/identity';
+import { DEFAULT_FIELD_MAPPINGS } from '@/lib/mapping';
+import { MarkdownDestination } from '@/lib/markdown-destination';
+import { DEFAULT_DESTINATION_CONFIG, Destination } from '@/types/destination';
+import { SyncConfig } from '@/types/sync';
+
+// The folder markdown notes sent to the server must be inside; relative folders are resolved against it
+function getMarkdownRoot(): string | undefined {
+    const root = process.env.ZOTCRAFT_MARKDOWN_ROOT?.trim();
+    return root ? path.resolve(root) : undefined;
+}
+
+function resolveMarkdownFolder(folder: string | undefined): string {
+    return path.resolve(getMarkdownRoot() ?? '.', folder?.trim() || '.');
+}
+
+/**
+ * The destination the config selects. Throws if it is missing required settings.
+ * `http` carries the run's retry reporting to destinations that make requests.
+ * Unless `anyFolder` is set (the CLI, run by the machine's owner), a markdown folder must be
+ * inside ZOTCRAFT_MARKDOWN_ROOT: the web app's requests would otherwise let any client write
+ * and read files anywhere on the server.
+ */
+export function createDestination(config: SyncConfig, http?: HttpClient, anyFolder = false): Destination {
+    const destination = { ...DEFAULT_DESTINATION_CONFIG, ...config.destination };
+
+    if (destination.type === 'markdown') {
+        if (!destination.folder?.trim()) throw new Error('No markdown folder configured');
+        const folder = resolveMarkdownFolder(destination.folder);
+
+        if (!anyFolder) {
+            const root = getMarkdownRoot();
+            if (!root) {
+                throw new Error('Markdown folders are turned off on this server. Set ZOTCRAFT_MARKDOWN_ROOT to the folder notes may be written to');
+            }
+            const relative = path.relative(root, folder);
+            if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+                throw new Error(`Markdown folder ${folder} is outside ZOTCRAFT_MARKDOWN_ROOT (${root})`);
+            }
+        }
+
+        // Every mapped property and identifier becomes a frontmatter key
+        const mappings = config.mapping || DEFAULT_FIELD_MAPPINGS;
+        const names = [...mappings.map((mapping) => mapping.target).filter(Boolean), ...Object.values(IDENTITY_PROPERTIES)];
+        return new MarkdownDestination({ ...destination, folder }, names);
+    }
+
+    return new CraftDestination(config.craft, http);
+}
+
+/**
+ * What a sync with this config writes to (a Craft collection or document, or a folder),
+ * so two runs never write to the same place at once
+ */
+export function getSyncTarget(config: SyncConfig): string {
+    const destination = { ...DEFAULT_DESTINATION_CONFIG, ...config.destination };
+    if (destination.type === 'markdown') {
+        return `markdown:${resolveMarkdownFolder(destination.folder)}`;
+    }
+    return `craft:${config.craft?.targetCollectionId || config.craft?.parentDocumentId || ''}`;
+}
@@ -0,0 +1,34 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectFormat, parseImportFile } from '@/lib/file-import';
+
+describe('detectFormat', () => {
+    test('goes by the extension first', () => {
+        assert.equal(detectFormat({ name: 'refs.BIB', content: '[]' }), 'bibtex');
+        assert.equal(detectFormat({ name: 'refs.ris', content: '' }), 'ris');
+        assert.equal(detectFormat({ name: 'refs.json', content: '' }), 'csl-json');
+    });
+
+    test('falls back to the content', () => {
+        assert.equal(detectFormat({ name: 'export.txt', content: '\uFEFF  [{"title": "A"}]' }), 'csl-json');
+        assert.equal(detectFormat({ name: 'export.txt', content: 'TY  - JOUR\nER  - ' }), 'ris');
+        assert.equal(detectFormat({ name: 'export.txt', content: '% comment\n@article{a, title = {A}}' }), 'bibtex');
+        assert.equal(detectFormat({ name: 'notes.txt', content: 'Just some notes' }), null);
+    });
+});
+
+describe('parseImportFile', () => {
+    test('gives an entry the same key in every format', () => {
+        const bibtex = parseImportFile({ name: 'a.bib', content: '@article{x, title = {A}, doi = {https://doi.org/10.1000/XYZ}}' });
+        const ris = parseImportFile({ name: 'a.ris', content: 'TY  - JOUR\nTI  - A\nDO  - 10.1000/xyz\nER  - ' });
+        const csl = parseImportFile({ name: 'a.json', content: '[{"title": "A", "DOI": "10.1000/xyz"}]' });
+
+        assert.equal(bibtex?.format, 'bibtex');
+        assert.equal(bibtex?.items[0].key, ris?.items[0].key);
+        assert.equal(ris?.items[0].key, csl?.items[0].key);
+    });
+
+    test('returns null for an unrecognised file', () => {
+        assert.equal(parseImportFile({ name: 'notes.txt', content: 'Just some notes' }), null);
+    });
+});
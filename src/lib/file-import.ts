@@ -0,0 +1,38 @@
+import { parseBibtex } from '@/lib/bibtex';
+import { parseCslJson } from '@/lib/csl-json';
+import { parseRis } from '@/lib/ris';
+import { ImportFile, ImportFormat, ImportResult } from '@/types/import';
+
+export const IMPORT_EXTENSIONS: Record<string, ImportFormat> = {
+    bib: 'bibtex',
+    bibtex: 'bibtex',
+    ris: 'ris',
+    json: 'csl-json',
+};
+
+/**
+ * The file's format from its extension, else from its first non-blank characters
+ */
+export function detectFormat(file: ImportFile): ImportFormat | null {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    if (IMPORT_EXTENSIONS[extension]) return IMPORT_EXTENSIONS[extension];
+
+    const start = file.content.replace(/^\uFEFF/, '').trimStart();
+    if (start.startsWith('[') || start.startsWith('{')) return 'csl-json';
+    if (/^TY {1,2}-/.test(start)) return 'ris';
+    if (/@\w+\s*[{(]/.test(start)) return 'bibtex';
+    return null;
+}
+
+/**
+ * Parses an uploaded reference file into Zotero-shaped items. Every call stamps the
+ * items with a newer version, so items imported before go through the update path.
+ */
+export function parseImportFile(file: ImportFile): ImportResult | null {
+    const format = detectFormat(file);
+    if (!format) return null;
+
+    const version = Math.floor(Date.now() / 1000);
+    const parse = format === 'bibtex' ? parseBibtex : format === 'ris' ? parseRis : parseCslJson;
+    return { format, ...parse(file.content, version) };
+}
@@ -0,0 +1,112 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { joinFrontmatter, parseFrontmatter, setFrontmatterValues, splitFrontmatter } from '@/lib/frontmatter';
+
+// Writes the values and reads them back
+function roundTrip(values: Record<string, unknown>) {
+    return parseFrontmatter(setFrontmatterValues(null, values));
+}
+
+describe('frontmatter round trip', () => {
+    test('keeps values with colons, hashes and quotes', () => {
+        const values = {
+            title: 'Attention: is it all you need?',
+            url: 'https://example.com/a#b',
+            'Citation key': 'smith2020',
+            note: 'Ends with a colon:',
+            comment: 'C# vs F# #tags',
+            quoted: `"Double" and 'single' quotes`,
+            leading: '- not a list',
+            brackets: '[not a list]',
+            spaced: ' padded ',
+        };
+        assert.deepEqual(roundTrip(values), values);
+    });
+
+    test('keeps strings YAML would read as other types', () => {
+        const values = { yes: 'yes', off: 'Off', empty: '', tilde: '~', nil: 'null', star: '*bold*' };
+        assert.deepEqual(roundTrip(values), values);
+    });
+
+    test('keeps multi-line values', () => {
+        const values = { abstract: 'First line.\nSecond line: with a colon\n\n- and a dash' };
+        const written = setFrontmatterValues(null, values);
+        assert.equal(written.split('\n').length, 1);
+        assert.deepEqual(parseFrontmatter(written), values);
+    });
+
+    test('keeps lists, including items with commas and colons', () => {
+        const values = { tags: ['alpha', 'beta, gamma', 'key: value', '#hashtag'], empty: [] };
+        assert.deepEqual(roundTrip(values), values);
+    });
+
+    test('quotes keys that need it', () => {
+        const values = { 'Key: with colon': 'a', '#hash': 'b', '- dash': 'c' };
+        assert.deepEqual(roundTrip(values), values);
+    });
+
+    test('writes numbers and booleans as they are, and reads them as strings', () => {
+        const written = setFrontmatterValues(null, { year: 2020, read: true });
+        assert.equal(written, 'year: 2020\nread: true');
+        assert.deepEqual(parseFrontmatter(written), { year: '2020', read: 'true' });
+    });
+});
+
+describe('setFrontmatterValues', () => {
+    test('replaces entries in place and keeps lines it does not own', () => {
+        const existing = [
+            '# Added by hand',
+            'title: Old title',
+            'aliases:',
+            '  - Old',
+            'nested:',
+            '  child: kept',
+            'tags: [one, two]',
+        ].join('\n');
+        const updated = setFrontmatterValues(existing, { title: 'New: title', tags: ['three'], added: 'yes' });
+
+        assert.equal(updated, [
+            '# Added by hand',
+            'title: "New: title"',
+            'aliases:',
+            '  - Old',
+            'nested:',
+            '  child: kept',
+            'tags:',
+            '  - three',
+            'added: "yes"',
+        ].join('\n'));
+        assert.deepEqual(parseFrontmatter(updated), { title: 'New: title', aliases: ['Old'], tags: ['three'], added: 'yes' });
+    });
+});
+
+describe('parseFrontmatter', () => {
+    test('reads quoted, commented, flow-list and single-quoted values', () => {
+        const parsed = parseFrontmatter([
+            "title: 'It''s here'",
+            'doi: 10.1000/xyz # from the publisher',
+            'tags: [a, "b", \'c\']',
+            '"quoted key": value',
+            'block: |',
+            '  skipped',
+        ].join('\n'));
+        assert.deepEqual(parsed, { title: "It's here", doi: '10.1000/xyz', tags: ['a', 'b', 'c'], 'quoted key': 'value' });
+    });
+});
+
+describe('splitFrontmatter', () => {
+    test('splits a note and joins it back', () => {
+        const note = joinFrontmatter('title: A', '# A\n\nBody');
+        assert.equal(note, '---\ntitle: A\n---\n\n# A\n\nBody');
+        assert.deepEqual(splitFrontmatter(note), { frontmatter: 'title: A', body: '# A\n\nBody' });
+    });
+
+    test('leaves notes without closed frontmatter alone', () => {
+        assert.deepEqual(splitFrontmatter('# Title\n---\n'), { frontmatter: null, body: '# Title\n---\n' });
+        assert.deepEqual(splitFrontmatter('---\ntitle: A\n'), { frontmatter: null, body: '---\ntitle: A\n' });
+    });
+
+    test('reads CRLF notes with a byte order mark', () => {
+        assert.deepEqual(splitFrontmatter('\uFEFF---\r\ntitle: A\r\n---\r\nBody'), { frontmatter: 'title: A', body: 'Body' });
+    });
+});
@@ -0,0 +1,134 @@
+// YAML frontmatter for markdown notes. Only what the sync writes is parsed (top-level
+// scalars and lists); everything else in a note's frontmatter is kept verbatim, so
+// properties a user added by hand survive re-syncs.
+
+const FENCE = '---';
+
+// A top-level "key: value" line; the key may be quoted
+const ENTRY_LINE = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#\-'"][^:]*?)\s*:(?:\s+(.*))?$/;
+
+interface FrontmatterEntry {
+    key?: string; // Unset for comments and anything before the first key
+    lines: string[];
+}
+
+/**
+ * Splits a note into its frontmatter (without the fences, null if there is none) and body
+ */
+export function splitFrontmatter(text: string): { frontmatter: string | null; body: string } {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    if (lines[0]?.trim() !== FENCE) return { frontmatter: null, body: text };
+
+    const end = lines.findIndex((line, i) => i > 0 && (line.trim() === FENCE || line.trim() === '...'));
+    if (end === -1) return { frontmatter: null, body: text };
+
+    return {
+        frontmatter: lines.slice(1, end).join('\n'),
+        body: lines.slice(end + 1).join('\n').replace(/^\n/, ''),
+    };
+}
+
+export function joinFrontmatter(frontmatter: string, body: string): string {
+    return `${FENCE}\n${frontmatter}\n${FENCE}\n\n${body}`;
+}
+
+function unquote(key: string): string {
+    if (key.startsWith('"')) {
+        try {
+            return JSON.parse(key);
+        } catch {
+            return key.slice(1, -1);
+        }
+    }
+    if (key.startsWith("'")) return key.slice(1, -1).replace(/''/g, "'");
+    return key;
+}
+
+function parseScalar(raw: string): string {
+    const value = raw.trim();
+    if (value.startsWith('"') || value.startsWith("'")) return unquote(value);
+    // Plain scalars end at a comment
+    return value.replace(/\s+#.*$/, '');
+}
+
+function splitEntries(frontmatter: string): FrontmatterEntry[] {
+    const entries: FrontmatterEntry[] = [];
+    for (const line of frontmatter.split('\n')) {
+        const match = line.match(ENTRY_LINE);
+        if (match) {
+            entries.push({ key: unquote(match[1]), lines: [line] });
+        } else if (entries.length > 0 && !line.startsWith('#')) {
+            // Indented values and "- item" lines belong to the entry above
+            entries[entries.length - 1].lines.push(line);
+        } else {
+            entries.push({ lines: [line] });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Reads top-level keys: scalars as strings, block ("- a") and flow ("[a, b]") lists as arrays.
+ * Nested maps and other YAML are skipped.
+ */
+export function parseFrontmatter(frontmatter: string): Record<string, string | string[]> {
+    const values: Record<string, string | string[]> = {};
+
+    for (const entry of splitEntries(frontmatter)) {
+        if (entry.key === undefined) continue;
+        const inline = entry.lines[0].match(ENTRY_LINE)?.[2]?.trim() || '';
+
+        if (inline.startsWith('[') && inline.endsWith(']')) {
+            values[entry.key] = inline.slice(1, -1).split(',').map(parseScalar).filter(Boolean);
+        } else if (inline && !/^[|>]/.test(inline)) {
+            values[entry.key] = parseScalar(inline);
+        } else {
+            const items = entry.lines.slice(1).map((line) => line.match(/^\s*-\s+(.*)$/)?.[1]);
+            if (items.length > 0 && items.every((item) => item !== undefined)) {
+                values[entry.key] = items.map((item) => parseScalar(item!));
+            }
+        }
+    }
+    return values;
+}
+
+function formatKey(key: string): string {
+    return /^[A-Za-z0-9_][\w .\/-]*$/.test(key) && !key.endsWith(' ') ? key : JSON.stringify(key);
+}
+
+// Plain when YAML reads it back as the same string (or as the number/date it looks like), else double-quoted
+function formatScalar(value: string): string {
+    const plain = value !== ''
+        && !/^[\s\-?:,\[\]{}#&*!|>'"%@`]/.test(value)
+        && !/(:\s|\s#|:$|\s$|\n)/.test(value)
+        && !/^(true|false|yes|no|on|off|null|~)$/i.test(value);
+    return plain ? value : JSON.stringify(value);
+}
+
+function formatEntry(key: string, value: unknown): string[] {
+    if (Array.isArray(value)) {
+        if (value.length === 0) return [`${formatKey(key)}: []`];
+        return [`${formatKey(key)}:`, ...value.map((item) => `  - ${formatScalar(String(item))}`)];
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') return [`${formatKey(key)}: ${value}`];
+    return [`${formatKey(key)}: ${formatScalar(String(value ?? ''))}`];
+}
+
+/**
+ * Frontmatter with the given keys set: existing entries are replaced in place, new ones
+ * are added at the end, and all other lines are left as they were.
+ */
+export function setFrontmatterValues(frontmatter: string | null, values: Record<string, unknown>): string {
+    const entries = frontmatter ? splitEntries(frontmatter) : [];
+    const remaining = new Map(Object.entries(values));
+
+    const lines = entries.flatMap((entry) => {
+        if (entry.key === undefined || !remaining.has(entry.key)) return entry.lines;
+        const value = remaining.get(entry.key);
+        remaining.delete(entry.key);
+        return formatEntry(entry.key, value);
+    });
+    for (const [key, value] of remaining) lines.push(...formatEntry(key, value));
+
+    return lines.join('\n');
+}
@@ -0,0 +1,29 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { htmlToMarkdown } from '@/lib/html-to-markdown';
+
+describe('htmlToMarkdown', () => {
+    test('keeps the line breaks and indentation of a multi-line <pre>', () => {
+        const html = [
+            '<div data-schema-version="9"><p>Before</p>',
+            '<pre>function add(a, b) {',
+            '    return a &lt; b ? b : a;',
+            '}',
+            '',
+            'add(1, 2);</pre>',
+            '<p>After</p></div>',
+        ].join('\n');
+        assert.equal(
+            htmlToMarkdown(html),
+            'Before\n\n```\nfunction add(a, b) {\n    return a < b ? b : a;\n}\n\nadd(1, 2);\n```\n\nAfter',
+        );
+    });
+
+    test('turns <br> inside a <pre> into line breaks', () => {
+        assert.equal(htmlToMarkdown('<pre><code>one<br>two</code></pre>'), '```\none\ntwo\n```');
+    });
+
+    test('still collapses newlines in ordinary paragraphs', () => {
+        assert.equal(htmlToMarkdown('<p>one\ntwo</p>'), 'one two');
+    });
+});
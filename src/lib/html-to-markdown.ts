@@ -0,0 +1,77 @@
+// Converts the HTML Zotero stores for notes into markdown Craft can render.
+// Zotero's note editor produces a small, predictable subset of HTML, so a
+// handful of replacements covers it without pulling in a DOM parser.
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return isNaN(value) ? entity : String.fromCodePoint(value);
+        }
+        return ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+// Stands in for a code block while the rest of the note is normalised
+function codeBlockPlaceholder(index: number): string {
+    return `\u0000CODE${index}\u0000`;
+}
+
+export function htmlToMarkdown(html: string): string {
+    // Code blocks keep their line breaks and spacing, so take them out before
+    // whitespace is collapsed and put them back once everything else is done
+    const codeBlocks: string[] = [];
+    let md = html.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) => {
+        const text = decodeEntities(code.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''))
+            .replace(/\r\n?/g, '\n')
+            .replace(/^\n/, '') // Browsers drop a newline right after <pre>
+            .replace(/\s+$/, '');
+        codeBlocks.push(`\`\`\`\n${text}\n\`\`\``);
+        return `<p>${codeBlockPlaceholder(codeBlocks.length - 1)}</p>`;
+    });
+
+    md = md
+        // Zotero wraps notes in <div data-schema-version=...>
+        .replace(/<\/?div[^>]*>/gi, '')
+        .replace(/\r?\n/g, ' ');
+
+    // Block-level elements
+    md = md
+        .replace(/<h([1-6])[^>]*>(.*?)<\/h\1>/gi, (_, level: string, text: string) => `\n\n${'#'.repeat(Number(level))} ${text.trim()}\n\n`)
+        .replace(/<blockquote[^>]*>(.*?)<\/blockquote>/gi, (_, text: string) => {
+            const inner = text.replace(/<\/?p[^>]*>/gi, '\n').trim();
+            return `\n\n${inner.split('\n').filter((line) => line.trim()).map((line) => `> ${line.trim()}`).join('\n')}\n\n`;
+        })
+        .replace(/<ol[^>]*>(.*?)<\/ol>/gi, (_, list: string) => {
+            let index = 0;
+            return `\n\n${list.replace(/<li[^>]*>(.*?)<\/li>/gi, (__: string, item: string) => `${++index}. ${item.trim()}\n`)}\n`;
+        })
+        .replace(/<ul[^>]*>(.*?)<\/ul>/gi, (_, list: string) => `\n\n${list.replace(/<li[^>]*>(.*?)<\/li>/gi, (__: string, item: string) => `- ${item.trim()}\n`)}\n`)
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<p[^>]*>(.*?)<\/p>/gi, (_, text: string) => `\n\n${text.trim()}\n\n`);
+
+    // Inline elements
+    md = md
+        .replace(/<(strong|b)>(.*?)<\/\1>/gi, '**$2**')
+        .replace(/<(em|i)>(.*?)<\/\1>/gi, '*$2*')
+        .replace(/<(s|del|strike)>(.*?)<\/\1>/gi, '~~$2~~')
+        .replace(/<code>(.*?)<\/code>/gi, '`$1`')
+        .replace(/<a [^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, '[$2]($1)')
+        // Anything left (spans carrying citation data, colours, ...) only wraps text
+        .replace(/<[^>]+>/g, '');
+
+    return decodeEntities(md)
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+        .replace(/\u0000CODE(\d+)\u0000/g, (_, index: string) => codeBlocks[Number(index)]);
+}
@@ -0,0 +1,127 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpClient, HttpRetry } from '@/lib/http';
+
+type FetchStub = (url: string, init: RequestInit) => Promise<Response>;
+
+// Hosts share their limits and backoff across clients, so each test uses its own
+let hostCount = 0;
+function testUrl(): string {
+    return `https://host-${++hostCount}.test/items`;
+}
+
+// A fetch that never answers, and rejects like fetch does once its signal aborts
+function hangingFetch(_url: string, init: RequestInit): Promise<Response> {
+    return new Promise((_resolve, reject) => {
+        if (init.signal?.aborted) return reject(init.signal.reason);
+        // Timeout signals don't keep the process alive, an open connection would
+        const connection = setInterval(() => {}, 1000);
+        init.signal?.addEventListener('abort', () => {
+            clearInterval(connection);
+            reject(init.signal!.reason);
+        }, { once: true });
+    });
+}
+
+describe('HttpClient', () => {
+    test('waits as long as Retry-After asks before retrying a 429', async (t) => {
+        const responses = [
+            new Response(null, { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '0.05' } }),
+            Response.json({ ok: true }),
+        ];
+        const fetch = t.mock.method(globalThis, 'fetch', (async () => responses.shift()!) as FetchStub);
+        const retries: HttpRetry[] = [];
+        const client = new HttpClient({ onRetry: (retry) => retries.push(retry) });
+
+        const startedAt = Date.now();
+        const response = await client.fetch(testUrl(), { method: 'POST' });
+        assert.equal(response.status, 200);
+        assert.equal(fetch.mock.callCount(), 2);
+        assert.ok(Date.now() - startedAt >= 45);
+        assert.deepEqual(retries.map(({ reason, attempt, delayMs }) => ({ reason, attempt, delayMs })), [
+            { reason: '429 Too Many Requests', attempt: 1, delayMs: 50 },
+        ]);
+    });
+
+    test('retries a 5xx for idempotent methods only', async (t) => {
+        t.mock.method(Math, 'random', () => 0); // No backoff delay
+        const fetch = t.mock.method(globalThis, 'fetch', (async () => new Response(null, { status: 502 })) as FetchStub);
+        const client = new HttpClient({ maxRetries: 2 });
+
+        const get = await client.fetch(testUrl());
+        assert.equal(get.status, 502, 'resolves with the last response once retries run out');
+        assert.equal(fetch.mock.callCount(), 3);
+
+        const post = await client.fetch(testUrl(), { method: 'POST' });
+        assert.equal(post.status, 502);
+        assert.equal(fetch.mock.callCount(), 4);
+    });
+
+    test('retries a 503 with Retry-After for any method', async (t) => {
+        const responses = [new Response(null, { status: 503, headers: { 'Retry-After': '0' } }), Response.json({})];
+        const fetch = t.mock.method(globalThis, 'fetch', (async () => responses.shift()!) as FetchStub);
+
+        const response = await new HttpClient().fetch(testUrl(), { method: 'POST' });
+        assert.equal(response.status, 200);
+        assert.equal(fetch.mock.callCount(), 2);
+    });
+
+    test('times out requests, retrying only idempotent ones', async (t) => {
+        t.mock.method(Math, 'random', () => 0);
+        const fetch = t.mock.method(globalThis, 'fetch', hangingFetch);
+        const retries: string[] = [];
+        const client = new HttpClient({ timeoutMs: 20, maxRetries: 1, onRetry: (retry) => retries.push(retry.reason) });
+
+        const url = testUrl();
+        await assert.rejects(client.fetch(url), { message: `GET ${new URL(url).host} timed out after 0.02s` });
+        assert.equal(fetch.mock.callCount(), 2);
+        assert.deepEqual(retries, ['timed out after 0.02s']);
+
+        await assert.rejects(client.fetch(testUrl(), { method: 'POST' }), /timed out/);
+        assert.equal(fetch.mock.callCount(), 3);
+    });
+
+    test('rejects at once when the caller aborts', async (t) => {
+        const fetch = t.mock.method(globalThis, 'fetch', hangingFetch);
+        const controller = new AbortController();
+
+        const request = new HttpClient().fetch(testUrl(), { signal: controller.signal });
+        controller.abort(new Error('Stopped'));
+        await assert.rejects(request, { message: 'Stopped' });
+        assert.equal(fetch.mock.callCount(), 1);
+    });
+
+    test('sends at most 4 requests to a host at a time', async (t) => {
+        const open = new Map<string, number>(); // Requests in flight per host
+        const pending: Array<() => void> = [];
+        t.mock.method(globalThis, 'fetch', ((url: string) => {
+            const host = new URL(url).host;
+            open.set(host, (open.get(host) ?? 0) + 1);
+            return new Promise<Response>((resolve) => pending.push(() => {
+                open.set(host, open.get(host)! - 1);
+                resolve(Response.json({}));
+            }));
+        }) as FetchStub);
+        const client = new HttpClient();
+        const busy = testUrl();
+        const other = testUrl();
+
+        const requests = Array.from({ length: 6 }, () => client.fetch(busy));
+        requests.push(client.fetch(other));
+        await new Promise((resolve) => setImmediate(resolve));
+        assert.equal(open.get(new URL(busy).host), 4);
+        assert.equal(open.get(new URL(other).host), 1, 'other hosts are not held up');
+
+        // Each finished request lets a waiting one through
+        pending.shift()!();
+        await new Promise((resolve) => setImmediate(resolve));
+        assert.equal(open.get(new URL(busy).host), 4);
+
+        while (pending.length > 0) {
+            pending.shift()!();
+            await new Promise((resolve) => setImmediate(resolve));
+        }
+        assert.equal((await Promise.all(requests)).length, 7);
+        assert.equal(open.get(new URL(busy).host), 0);
+    });
+});
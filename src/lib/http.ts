@@ -0,0 +1,187 @@
+// HTTP layer shared by the Zotero and Craft clients: request timeouts, retries with
+// exponential backoff and jitter, the backoff servers ask for (Retry-After, Zotero's
+// Backoff header) and a limit on concurrent requests per host.
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+const MAX_SERVER_DELAY_MS = 5 * 60 * 1000; // A server asking for a longer wait fails the request instead
+const MAX_REQUESTS_PER_HOST = 4;
+
+// Safe to send twice; other requests (e.g. creating a Craft item) are only retried when
+// the server can't have acted on them
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+// Connection errors raised before the request was sent
+const NOT_SENT_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+export interface HttpRetry {
+    method: string;
+    url: string;
+    reason: string; // e.g. "429 Too Many Requests" or "timed out after 30s"
+    attempt: number; // 1 for the first retry
+    maxRetries: number;
+    delayMs: number;
+}
+
+export interface HttpClientOptions {
+    timeoutMs?: number;
+    maxRetries?: number;
+    onRetry?: (retry: HttpRetry) => void; // Called before waiting for each retry
+}
+
+interface HostState {
+    active: number;
+    waiting: Array<() => void>;
+    notBefore: number; // Epoch ms the server asked us to wait until
+}
+
+// Shared by every client in the process, so the limits hold across concurrent syncs.
+// Kept on globalThis in case Next.js loads this module more than once.
+const globalForHttp = globalThis as unknown as { zotcraftHttpHosts?: Map<string, HostState> };
+const hosts = (globalForHttp.zotcraftHttpHosts ??= new Map<string, HostState>());
+
+function getHost(url: string): HostState {
+    const host = new URL(url).host;
+    let state = hosts.get(host);
+    if (!state) {
+        state = { active: 0, waiting: [], notBefore: 0 };
+        hosts.set(host, state);
+    }
+    return state;
+}
+
+async function acquire(host: HostState): Promise<void> {
+    if (host.active < MAX_REQUESTS_PER_HOST) {
+        host.active++;
+        return;
+    }
+    // The slot is handed over by release(), so `active` stays the same
+    await new Promise<void>((resolve) => host.waiting.push(resolve));
+}
+
+function release(host: HostState) {
+    const next = host.waiting.shift();
+    if (next) {
+        next();
+    } else {
+        host.active--;
+    }
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Retry-After (seconds or an HTTP date) or Zotero's Backoff (seconds), in ms
+function parseDelayHeader(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter: a random wait up to 1s, 2s, 4s, ... capped
+function backoffDelay(attempt: number): number {
+    return Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+}
+
+function errorCode(error: unknown): string | undefined {
+    const cause = (error as { cause?: { code?: string } }).cause;
+    return cause?.code ?? (error as { code?: string }).code;
+}
+
+/**
+ * `fetch` with timeouts, retries and per-host limits. Resolves with the last response once
+ * retries run out, so callers still check `response.ok` themselves; rejects only when no
+ * response arrived (network error, timeout or the caller's abort signal).
+ */
+export class HttpClient {
+    private timeoutMs: number;
+    private maxRetries: number;
+
+    constructor(private options: HttpClientOptions = {}) {
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    }
+
+    async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+        const method = (init.method || 'GET').toUpperCase();
+        const idempotent = IDEMPOTENT_METHODS.has(method);
+        const host = getHost(url);
+
+        for (let attempt = 0; ; attempt++) {
+            let response: Response | undefined;
+            let failure: unknown;
+
+            await acquire(host);
+            try {
+                // Another request may have been told to back off while this one waited
+                const wait = host.notBefore - Date.now();
+                if (wait > 0) await sleep(wait, init.signal);
+
+                const timeout = AbortSignal.timeout(this.timeoutMs);
+                response = await fetch(url, {
+                    ...init,
+                    signal: init.signal ? AbortSignal.any([init.signal, timeout]) : timeout,
+                });
+            } catch (error: unknown) {
+                if (init.signal?.aborted) throw error;
+                failure = error;
+            } finally {
+                release(host);
+            }
+
+            let reason: string;
+            let retryable: boolean;
+            let serverDelay: number | undefined;
+
+            if (response) {
+                // Zotero sends Backoff when it is under load, on successful responses too
+                const backoff = parseDelayHeader(response.headers.get('Backoff'));
+                const retryAfter = parseDelayHeader(response.headers.get('Retry-After'));
+                serverDelay = Math.max(backoff ?? 0, retryAfter ?? 0) || undefined;
+                if (serverDelay) host.notBefore = Math.max(host.notBefore, Date.now() + serverDelay);
+
+                if (response.ok) return response;
+                reason = `${response.status} ${response.statusText}`.trim();
+                // A 429 (or 503 with Retry-After) was turned away before the server did anything
+                retryable = response.status === 429
+                    || (response.status === 503 && retryAfter !== undefined)
+                    || (idempotent && (response.status === 408 || response.status >= 500));
+            } else {
+                const timedOut = failure instanceof DOMException && failure.name === 'TimeoutError';
+                reason = timedOut
+                    ? `timed out after ${this.timeoutMs / 1000}s`
+                    : (errorCode(failure) ?? (failure instanceof Error ? failure.message : String(failure)));
+                retryable = idempotent || NOT_SENT_CODES.has(errorCode(failure) ?? '');
+                if (timedOut) {
+                    failure = new Error(`${method} ${new URL(url).host} ${reason}`, { cause: failure });
+                }
+            }
+
+            const delayMs = serverDelay ?? backoffDelay(attempt);
+            if (!retryable || attempt >= this.maxRetries || delayMs > MAX_SERVER_DELAY_MS) {
+                if (response) return response;
+                throw failure;
+            }
+
+            // Free the connection of the response we're dropping
+            await response?.body?.cancel().catch(() => {});
+            this.options.onRetry?.({ method, url, reason, attempt: attempt + 1, maxRetries: this.maxRetries, delayMs });
+            await sleep(delayMs, init.signal);
+        }
+    }
+}
@@ -0,0 +1,52 @@
+import { ZoteroItem } from '@/types/zotero';
+
+// Craft collection properties that hold stable identifiers, by display name.
+// "Zotero key" is written on every item we create; DOI and citation key are fallbacks
+// for items created by hand or before the key property existed.
+export const IDENTITY_PROPERTIES = {
+    zoteroKey: 'Zotero key',
+    doi: 'DOI',
+    citationKey: 'Citation key',
+} as const;
+
+export type IdentityField = keyof typeof IDENTITY_PROPERTIES;
+
+export interface ItemIdentity {
+    zoteroKey: string;
+    doi?: string;
+    citationKey?: string;
+}
+
+/**
+ * Lower-cased bare DOI ("10.1000/xyz"), with any resolver prefix removed
+ */
+export function normalizeDoi(doi?: string): string | undefined {
+    if (!doi) return undefined;
+    const match = doi.trim().match(/10\.\d{4,9}\/\S+/);
+    return match ? match[0].toLowerCase() : undefined;
+}
+
+/**
+ * Citation key from Zotero 7's native field, or Better BibTeX's "Citation Key:" line in Extra
+ */
+export function extractCitationKey(item: ZoteroItem): string | undefined {
+    if (item.data.citationKey) return item.data.citationKey.trim();
+    const match = item.data.extra?.match(/^\s*Citation Key:\s*(\S+)\s*$/im);
+    return match ? match[1] : undefined;
+}
+
+export function getItemIdentity(item: ZoteroItem): ItemIdentity {
+    return {
+        zoteroKey: item.key,
+        doi: normalizeDoi(item.data.DOI),
+        citationKey: extractCitationKey(item),
+    };
+}
+
+/**
+ * Normalized identifier stored in a Craft property, comparable with ItemIdentity values
+ */
+export function identityValue(field: IdentityField, value: unknown): string | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    return field === 'doi' ? normalizeDoi(value) : value.trim();
+}
@@ -0,0 +1,93 @@
+import { normalizeDoi } from '@/lib/identity';
+import { ZoteroItem, ZoteroItemData } from '@/types/zotero';
+
+// Zotero's key alphabet (no 0, 1, O)
+const KEY_ALPHABET = '23456789ABCDEFGHIJKLMNPQRSTUVWXYZ';
+
+type Creator = ZoteroItemData['creators'][number];
+
+// Fields a parser fills in; the rest of ZoteroItemData is derived here
+export type ImportedFields = Omit<ZoteroItemData, 'key' | 'version' | 'creators' | 'tags'> & {
+    creators?: Creator[];
+    tags?: string[];
+};
+
+function fnv1a(text: string, seed: number): number {
+    let hash = seed >>> 0;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+}
+
+/**
+ * A stable 8-character item key for an imported entry, derived from its DOI, citation
+ * key or title and year, so importing the same file again finds the items synced before.
+ */
+export function importItemKey(fields: ImportedFields): string {
+    const identity = normalizeDoi(fields.DOI)
+        || (fields.citationKey && `key:${fields.citationKey}`)
+        || `title:${fields.title.toLowerCase().replace(/\W+/g, ' ').trim()}|${fields.date || ''}`;
+
+    let key = '';
+    let hash = fnv1a(identity, 0x811c9dc5);
+    for (let i = 0; i < 8; i++) {
+        if (i === 4) hash = fnv1a(identity, hash ^ 0x9e3779b9);
+        key += KEY_ALPHABET[hash % KEY_ALPHABET.length];
+        hash = Math.floor(hash / KEY_ALPHABET.length);
+    }
+    return key;
+}
+
+/**
+ * Wraps parsed fields in the ZoteroItem shape the sync pipeline works with.
+ * `version` should grow with every import, so re-imported entries are compared
+ * against what was synced before instead of being skipped.
+ */
+export function toImportedItem(fields: ImportedFields, version: number): ZoteroItem {
+    const key = importItemKey(fields);
+    const tags = [...new Set((fields.tags || []).map((tag) => tag.trim()).filter(Boolean))];
+
+    return {
+        key,
+        version,
+        data: {
+            ...fields,
+            key,
+            version,
+            creators: fields.creators || [],
+            tags: tags.map((tag) => ({ tag })),
+        },
+    };
+}
+
+/**
+ * "Last, First" or "First Last"; names in braces or without a space are kept whole
+ * (organizations, e.g. "{World Health Organization}")
+ */
+export function parsePersonName(name: string, creatorType: string = 'author'): Creator {
+    const trimmed = name.trim();
+    if (/^\{.*\}$/.test(trimmed)) {
+        return { creatorType, name: trimmed.slice(1, -1).trim() };
+    }
+
+    const comma = trimmed.indexOf(',');
+    if (comma !== -1) {
+        return { creatorType, lastName: trimmed.slice(0, comma).trim(), firstName: trimmed.slice(comma + 1).trim() };
+    }
+
+    const parts = trimmed.split(/\s+/);
+    if (parts.length === 1) return { creatorType, name: trimmed };
+    return { creatorType, lastName: parts[parts.length - 1], firstName: parts.slice(0, -1).join(' ') };
+}
+
+/**
+ * ISO-style date from year, month and day parts; missing parts are left off
+ */
+export function formatDateParts(year?: string | number, month?: string | number, day?: string | number): string {
+    if (!year) return '';
+    const pad = (value: string | number) => String(value).padStart(2, '0');
+    if (!month) return String(year);
+    return day ? `${year}-${pad(month)}-${pad(day)}` : `${year}-${pad(month)}`;
+}
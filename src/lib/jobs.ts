@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto';
+import { getSyncTarget } from '@/lib/destination';
+import { runSync } from '@/lib/sync';
+import { RunTrigger } from '@/types/history';
+import { JobRequest, SyncJobInfo } from '@/types/job';
+import { RunFinishedEvent, SyncConfig, SyncEvent, SyncProgress } from '@/types/sync';
+
+// Finished jobs stay around this long, so a reloaded page can still fetch the result
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Thrown when a job would write to a target another job is still writing to
+ */
+export class JobConflictError extends Error {
+    constructor(public readonly running: SyncJob) {
+        super(`A sync job is already running for this destination (${running.id})`);
+        this.name = 'JobConflictError';
+    }
+}
+
+/**
+ * One sync run in the background of the server process. Its events are buffered, so
+ * any number of clients can follow it from the start, leave and come back.
+ */
+export class SyncJob {
+    readonly id = randomUUID();
+    readonly startedAt = new Date().toISOString();
+    readonly done: Promise<RunFinishedEvent>;
+    private controller = new AbortController();
+    private events: SyncEvent[] = [];
+    private listeners = new Set<(event: SyncEvent) => void>();
+    private progress?: SyncProgress;
+    private finished?: RunFinishedEvent;
+    private settled = false;
+
+    constructor(
+        config: SyncConfig,
+        readonly request: JobRequest,
+        readonly trigger: RunTrigger,
+        readonly target: string
+    ) {
+        this.done = runSync(
+            config,
+            { ...request, trigger, runId: this.id, signal: this.controller.signal },
+            (event) => this.publish(event)
+        )
+            .then((finished) => {
+                this.finished = finished;
+                return finished;
+            })
+            .finally(() => {
+                this.settled = true;
+                this.listeners.clear();
+            });
+    }
+
+    get running(): boolean {
+        return !this.settled;
+    }
+
+    private publish(event: SyncEvent) {
+        this.events.push(event);
+        if ('progress' in event && event.progress) this.progress = event.progress;
+        for (const listener of this.listeners) listener(event);
+    }
+
+    /**
+     * Calls `listener` with every event from position `from` on, then with new ones as they
+     * happen. Returns the function that stops listening; stopping doesn't cancel the job.
+     */
+    subscribe(listener: (event: SyncEvent) => void, from = 0): () => void {
+        for (const event of this.events.slice(from)) listener(event);
+        if (!this.running) return () => {};
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    eventsAfter(position: number): SyncEvent[] {
+        return this.events.slice(Math.max(0, position));
+    }
+
+    // The run stops after the item it is working on, so the sync state stays consistent
+    cancel(): void {
+        if (this.running) this.controller.abort();
+    }
+
+    info(): SyncJobInfo {
+        return {
+            id: this.id,
+            state: this.settled ? 'finished' : this.controller.signal.aborted ? 'cancelling' : 'running',
+            trigger: this.trigger,
+            target: this.target,
+            startedAt: this.startedAt,
+            request: this.request,
+            eventCount: this.events.length,
+            progress: this.progress,
+            finished: this.finished,
+        };
+    }
+}
+
+/**
+ * The job's events as NDJSON, from position `from` until the job finishes. Closing the
+ * request (`signal`) only stops the stream; the job keeps running.
+ */
+export function streamJobEvents(job: SyncJob, from: number, signal: AbortSignal): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let unsubscribe = () => {};
+
+    return new ReadableStream({
+        start(controller) {
+            const close = () => {
+                unsubscribe();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the client
+                }
+            };
+
+            unsubscribe = job.subscribe((event) => {
+                controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+            }, from);
+            job.done.finally(close);
+            signal.addEventListener('abort', close);
+        },
+        cancel() {
+            unsubscribe();
+        },
+    });
+}
+
+/**
+ * Keeps track of the sync jobs of this server process. Started by the page, the API
+ * and the scheduler; at most one job runs per target.
+ */
+export class SyncJobManager {
+    private jobs = new Map<string, SyncJob>();
+
+    start(config: SyncConfig, request: JobRequest, trigger: RunTrigger): SyncJob {
+        const target = getSyncTarget(config);
+        const running = [...this.jobs.values()].find((job) => job.running && job.target === target);
+        if (running) throw new JobConflictError(running);
+
+        const job = new SyncJob(config, request, trigger, target);
+        this.jobs.set(job.id, job);
+        job.done
+            .catch((error) => console.error(`Sync job ${job.id} failed:`, error))
+            .finally(() => {
+                setTimeout(() => this.jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref?.();
+            });
+        return job;
+    }
+
+    get(id: string): SyncJob | undefined {
+        return this.jobs.get(id);
+    }
+
+    // Newest first
+    list(): SyncJob[] {
+        return [...this.jobs.values()].reverse();
+    }
+}
+
+// One job manager per server process, shared across route module instances
+const globalForJobs = globalThis as unknown as { zotcraftJobs?: SyncJobManager };
+
+export function getJobManager(): SyncJobManager {
+    if (!globalForJobs.zotcraftJobs) {
+        globalForJobs.zotcraftJobs = new SyncJobManager();
+    }
+    return globalForJobs.zotcraftJobs;
+}
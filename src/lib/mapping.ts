@@ -0,0 +1,235 @@
+import { ZoteroClient } from '@/lib/zotero';
+import { CraftProperty } from '@/types/craft';
+import { FieldMapping, FieldTransform } from '@/types/mapping';
+import { ZoteroItem, ZoteroItemData } from '@/types/zotero';
+
+// Craft collection schema by property display name
+export type SchemaMap = Record<string, CraftProperty>;
+
+// Values derived from the item or the sync run rather than read from one Zotero field
+export interface MappingContext {
+    collectionPath?: string;
+    citationKey?: string;
+    citation?: string; // Formatted reference in the configured style, as plain text
+}
+
+export const ZOTERO_FIELDS: Array<{ id: string; label: string }> = [
+    { id: 'title', label: 'Title' },
+    { id: 'creators', label: 'Creators' },
+    { id: 'date', label: 'Date' },
+    { id: 'publicationTitle', label: 'Publication (journal)' },
+    { id: 'bookTitle', label: 'Book title' },
+    { id: 'publisher', label: 'Publisher' },
+    { id: 'place', label: 'Place' },
+    { id: 'university', label: 'University' },
+    { id: 'volume', label: 'Volume' },
+    { id: 'issue', label: 'Issue' },
+    { id: 'pages', label: 'Pages' },
+    { id: 'edition', label: 'Edition' },
+    { id: 'series', label: 'Series' },
+    { id: 'DOI', label: 'DOI' },
+    { id: 'ISBN', label: 'ISBN' },
+    { id: 'ISSN', label: 'ISSN' },
+    { id: 'url', label: 'URL' },
+    { id: 'link', label: 'URL, or DOI if no URL' },
+    { id: 'abstractNote', label: 'Abstract' },
+    { id: 'extra', label: 'Extra' },
+    { id: 'language', label: 'Language' },
+    { id: 'itemType', label: 'Item type' },
+    { id: 'dateAdded', label: 'Date added' },
+    { id: 'dateModified', label: 'Date modified' },
+    { id: 'tags', label: 'Tags' },
+    { id: 'collectionPath', label: 'Collection path' },
+    { id: 'citationKey', label: 'Citation key' },
+    { id: 'citation', label: 'Formatted citation' },
+    { id: 'key', label: 'Zotero item key' },
+];
+
+export const FIELD_TRANSFORMS: Array<{ id: FieldTransform; label: string }> = [
+    { id: 'none', label: 'As is' },
+    { id: 'join', label: 'Join list' },
+    { id: 'firstAuthor', label: 'First entry only' },
+    { id: 'year', label: 'Year' },
+    { id: 'lowercase', label: 'Lowercase' },
+    { id: 'hashtags', label: '#hashtags' },
+    { id: 'constant', label: 'Constant value' },
+];
+
+// Reproduces the ZotCraft template's properties
+export const DEFAULT_FIELD_MAPPINGS: FieldMapping[] = [
+    { source: 'creators', target: 'Authors', transform: 'join' },
+    { source: 'date', target: 'Year', transform: 'year' },
+    { source: 'publicationTitle', target: 'Journal', transform: 'none' },
+    { source: 'link', target: 'URL', transform: 'none' },
+    { source: 'dateAdded', target: 'Date added', transform: 'none' },
+    { source: 'itemType', target: 'Publication type', transform: 'none' },
+    { source: 'tags', target: 'Tags', transform: 'hashtags' },
+    { source: 'collectionPath', target: 'Collection', transform: 'none' },
+    { source: '', target: 'Reading status', transform: 'constant', value: 'To Read', aliases: { 'To Read': 'Waiting' } },
+];
+
+// Helper to format camelCase to Title Case (e.g. journalArticle -> Journal Article)
+export function formatItemType(type: string): string {
+    if (!type) return '';
+    // Split by capital letters, capitalize first letter, join with space
+    return type
+        .replace(/([A-Z])/g, ' $1')
+        .replace(/^./, (str) => str.toUpperCase())
+        .trim();
+}
+
+/**
+ * Reads a Zotero field, normalized to a string or a list of strings
+ */
+export function getSourceValue(item: ZoteroItem, source: string, context: MappingContext = {}): string | string[] {
+    const data = item.data;
+    switch (source) {
+        case 'creators':
+            return (data.creators || []).map((c) => c.name || `${c.firstName || ''} ${c.lastName || ''}`.trim());
+        case 'tags':
+            return (data.tags || []).map((t) => t.tag);
+        case 'link':
+            return data.url || data.DOI || '';
+        case 'itemType':
+            return formatItemType(data.itemType || '');
+        case 'dateAdded':
+        case 'dateModified': {
+            // Craft expects YYYY-MM-DD for date properties
+            const value = data[source];
+            return value ? new Date(value).toISOString().split('T')[0] : '';
+        }
+        case 'key':
+            return item.key;
+        case 'collectionPath':
+            return context.collectionPath || '';
+        case 'citationKey':
+            return context.citationKey || data.citationKey || '';
+        case 'citation':
+            return context.citation || '';
+        default: {
+            // Any other field Zotero stores for the item type (series, archive, ...)
+            const value = (data as ZoteroItemData & Record<string, unknown>)[source];
+            return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+        }
+    }
+}
+
+export function applyTransform(value: string | string[], mapping: FieldMapping): string | string[] {
+    switch (mapping.transform) {
+        case 'constant':
+            return mapping.value || '';
+        case 'join':
+            return Array.isArray(value) ? value.join(', ') : value;
+        case 'firstAuthor':
+            return Array.isArray(value) ? value[0] || '' : value.split(',')[0].trim();
+        case 'year':
+            return ZoteroClient.extractYear(Array.isArray(value) ? value[0] : value);
+        case 'lowercase':
+            return Array.isArray(value) ? value.map((v) => v.toLowerCase()) : value.toLowerCase();
+        case 'hashtags': {
+            const toTag = (v: string) => `#${v.replace(/^#/, '').replace(/\s+/g, '_')}`;
+            return Array.isArray(value) ? value.map(toTag) : toTag(value);
+        }
+        default:
+            return value;
+    }
+}
+
+function isEmpty(value: string | string[]): boolean {
+    return Array.isArray(value) ? value.length === 0 : !value;
+}
+
+/**
+ * Finds the select option for a value: an exact or case-insensitive option match
+ * (ignoring a leading "#"), else the configured alias.
+ */
+function matchOption(value: string, options: string[], aliases: Record<string, string> = {}): string | undefined {
+    const bare = value.replace(/^#/, '').toLowerCase();
+    const direct = options.find((opt) => opt.toLowerCase() === bare);
+    if (direct) return direct;
+
+    const alias = aliases[value] ?? aliases[value.replace(/^#/, '')];
+    return alias ? options.find((opt) => opt.toLowerCase() === alias.toLowerCase()) : undefined;
+}
+
+/**
+ * Converts a value to what the Craft property type accepts. Select values that are not
+ * options of the property are left out (Craft rejects the whole item otherwise) and
+ * reported in `unmatched`.
+ */
+export function toPropertyValue(
+    property: CraftProperty,
+    value: string | string[],
+    aliases?: Record<string, string>
+): { value?: unknown; unmatched: string[] } {
+    const values = Array.isArray(value) ? value : [value];
+
+    switch (property.type) {
+        case 'number': {
+            const num = parseInt(values[0], 10);
+            return { value: isNaN(num) ? undefined : num, unmatched: [] };
+        }
+        case 'url':
+        case 'date':
+        case 'text':
+        case 'richText':
+            return { value: values.join(', '), unmatched: [] };
+        case 'select':
+        case 'multiSelect': {
+            const options = property.options || [];
+            const matched: string[] = [];
+            const unmatched: string[] = [];
+            for (const v of values) {
+                const option = matchOption(v, options, aliases);
+                if (option && !matched.includes(option)) matched.push(option);
+                if (!option) unmatched.push(v);
+            }
+
+            if (matched.length === 0) return { unmatched };
+            // select takes one option, multiSelect expects an array
+            return { value: property.type === 'select' ? matched[0] : matched, unmatched };
+        }
+        default:
+            // Unknown types (e.g. a native tags field) get a list when given one
+            return { value: Array.isArray(value) ? value : String(value), unmatched: [] };
+    }
+}
+
+/**
+ * Maps a Zotero item to Craft properties keyed by property key. Mappings whose
+ * target the collection doesn't have, or whose value is empty, are skipped.
+ */
+export function applyFieldMappings(
+    item: ZoteroItem,
+    mappings: FieldMapping[],
+    schemaMap: SchemaMap,
+    context: MappingContext = {}
+): { properties: Record<string, unknown>; unmatched: Array<{ property: string; values: string[] }> } {
+    const properties: Record<string, unknown> = {};
+    const unmatched: Array<{ property: string; values: string[] }> = [];
+
+    for (const mapping of mappings) {
+        const property = schemaMap[mapping.target];
+        if (!property) continue;
+
+        const raw = mapping.transform === 'constant' ? '' : getSourceValue(item, mapping.source, context);
+        const value = applyTransform(raw, mapping);
+        if (isEmpty(value)) continue;
+
+        const result = toPropertyValue(property, value, mapping.aliases);
+        if (result.value !== undefined) properties[property.key] = result.value;
+        if (result.unmatched.length > 0) unmatched.push({ property: property.name, values: result.unmatched });
+    }
+
+    return { properties, unmatched };
+}
+
+/**
+ * Property keys that are only set when an item is created (constant mappings such as
+ * the initial reading status), so updates don't overwrite what the user changed since.
+ */
+export function getInitialOnlyKeys(mappings: FieldMapping[], schemaMap: SchemaMap): string[] {
+    return mappings
+        .filter((mapping) => mapping.transform === 'constant' && schemaMap[mapping.target])
+        .map((mapping) => schemaMap[mapping.target].key);
+}
@@ -0,0 +1,173 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { joinFrontmatter, parseFrontmatter, setFrontmatterValues, splitFrontmatter } from '@/lib/frontmatter';
+import { CraftCollectionItem, CraftProperty } from '@/types/craft';
+import { Destination, DestinationConfig, DestinationNote } from '@/types/destination';
+
+// Frontmatter takes any value, so mapped properties get a type that passes values through
+const FRONTMATTER_TYPE = 'frontmatter';
+const MAX_FILENAME_LENGTH = 120;
+
+const HEADING = /^#{1,6}\s+(.*?)\s*#*\s*$/;
+
+/**
+ * A file name from the citation key or title, without characters that file systems
+ * or Obsidian links reject
+ */
+function toFilename(name: string): string {
+    const cleaned = name
+        .replace(/[\\/:*?"<>|#^\[\]]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, MAX_FILENAME_LENGTH)
+        .replace(/^\.+/, '')
+        .trim();
+    return cleaned || 'Untitled';
+}
+
+/**
+ * Rewrites the "**Label:** value" lines above the first heading, like the Craft
+ * metadata header update. Returns the body unchanged if nothing differs.
+ */
+function replaceHeaderLines(body: string, header: Record<string, string>): string {
+    const lines = body.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        if (HEADING.test(lines[i])) break;
+        const match = lines[i].match(/^\*\*([^*]+):\*\*/);
+        if (match && match[1] in header) {
+            lines[i] = `**${match[1]}:** ${header[match[1]]}`;
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Inserts markdown at the end of a "## Heading" section, just before the next heading;
+ * adds the section at the end if the note has none
+ */
+function appendToBody(body: string, heading: string, markdown: string): string {
+    const lines = body.replace(/\s+$/, '').split('\n');
+    const start = lines.findIndex((line) => line.match(HEADING)?.[1] === heading);
+    if (start === -1) return `${lines.join('\n')}\n\n## ${heading}\n${markdown}\n`;
+
+    let end = lines.findIndex((line, i) => i > start && HEADING.test(line));
+    if (end === -1) end = lines.length;
+    // Keep the blank line(s) between the section and the next heading
+    while (end > start + 1 && !lines[end - 1].trim()) end--;
+
+    lines.splice(end, 0, ...markdown.split('\n'));
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Writes one markdown file per item into a folder, e.g. inside an Obsidian vault.
+ * Properties become YAML frontmatter; updates touch only the frontmatter, the metadata
+ * lines and appended highlights, so text the user wrote in the note is kept.
+ */
+export class MarkdownDestination implements Destination {
+    readonly label = 'Markdown folder';
+    readonly scope: string;
+    private folder: string;
+
+    constructor(config: DestinationConfig, private propertyNames: string[]) {
+        if (!config.folder?.trim()) throw new Error('No markdown folder configured');
+        this.folder = path.resolve(config.folder.trim());
+        this.scope = `markdown:${this.folder}`;
+    }
+
+    // IDs are file names inside the folder; anything else would write outside it
+    private filePath(id: string): string {
+        if (path.basename(id) !== id) throw new Error(`Invalid note file name: ${id}`);
+        return path.join(this.folder, id);
+    }
+
+    private async readNote(id: string): Promise<{ frontmatter: string | null; body: string }> {
+        try {
+            return splitFrontmatter(await fs.readFile(this.filePath(id), 'utf-8'));
+        } catch (error: unknown) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                throw new Error(`Note '${id}' no longer exists in ${this.folder}`);
+            }
+            throw error;
+        }
+    }
+
+    private async writeNote(id: string, frontmatter: string | null, body: string): Promise<void> {
+        const content = frontmatter === null ? body : joinFrontmatter(frontmatter, body);
+        await fs.writeFile(this.filePath(id), content, 'utf-8');
+    }
+
+    async getProperties(): Promise<CraftProperty[]> {
+        return [...new Set(this.propertyNames)].map((name) => ({ name, key: name, type: FRONTMATTER_TYPE }));
+    }
+
+    async getItems(): Promise<CraftCollectionItem[] | null> {
+        let files: string[];
+        try {
+            files = (await fs.readdir(this.folder)).filter((file) => file.toLowerCase().endsWith('.md'));
+        } catch (error: unknown) {
+            // Created with the first note
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const items: CraftCollectionItem[] = [];
+        for (const file of files.sort()) {
+            const { frontmatter } = splitFrontmatter(await fs.readFile(path.join(this.folder, file), 'utf-8'));
+            const properties = frontmatter ? parseFrontmatter(frontmatter) : {};
+            const title = typeof properties.title === 'string' ? properties.title : file.replace(/\.md$/i, '');
+            items.push({ id: file, title, properties });
+        }
+        return items;
+    }
+
+    async addSelectOptions(): Promise<string[]> {
+        throw new Error('Markdown frontmatter has no select options');
+    }
+
+    async createItem(note: DestinationNote): Promise<string> {
+        await fs.mkdir(this.folder, { recursive: true });
+
+        const base = toFilename(note.citationKey || note.title);
+        const frontmatter = setFrontmatterValues(null, { title: note.title, ...note.properties });
+        const content = joinFrontmatter(frontmatter, note.markdownBody.replace(/\s*$/, '\n'));
+
+        // Never overwrite: another item or the user may already own the name
+        for (let n = 1; ; n++) {
+            const id = n === 1 ? `${base}.md` : `${base} ${n}.md`;
+            try {
+                await fs.writeFile(this.filePath(id), content, { encoding: 'utf-8', flag: 'wx' });
+                return id;
+            } catch (error: unknown) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    console.error('Error creating markdown note:', error);
+                    throw error;
+                }
+            }
+        }
+    }
+
+    // Notes are written in one go, so there is normally nothing to repair
+    async repairBody(id: string, markdownBody: string): Promise<boolean> {
+        const { frontmatter, body } = await this.readNote(id);
+        if (body.trim()) return false;
+        await this.writeNote(id, frontmatter, markdownBody.replace(/\s*$/, '\n'));
+        return true;
+    }
+
+    async updateItem(id: string, title: string, properties: Record<string, unknown>): Promise<void> {
+        const { frontmatter, body } = await this.readNote(id);
+        await this.writeNote(id, setFrontmatterValues(frontmatter, { title, ...properties }), body);
+    }
+
+    async updateMetadataHeader(id: string, header: Record<string, string>): Promise<void> {
+        const { frontmatter, body } = await this.readNote(id);
+        const updated = replaceHeaderLines(body, header);
+        if (updated !== body) await this.writeNote(id, frontmatter, updated);
+    }
+
+    async appendToSection(id: string, heading: string, markdown: string): Promise<void> {
+        const { frontmatter, body } = await this.readNote(id);
+        await this.writeNote(id, frontmatter, appendToBody(body, heading, markdown));
+    }
+}
@@ -0,0 +1,249 @@
+import { renderAnnotations, renderChildNotes } from '@/lib/annotations';
+import { extractCitationKey } from '@/lib/identity';
+import { formatItemType, getSourceValue } from '@/lib/mapping';
+import { renderTemplate } from '@/lib/template';
+import { ZoteroClient } from '@/lib/zotero';
+import { NoteTemplates } from '@/types/template';
+import { ZoteroChildContent, ZoteroItem } from '@/types/zotero';
+
+// Reproduces the ZotCraft note layout. The `**Label:** value` lines are the metadata
+// header that updates patch in place, and new highlights/notes are appended under the
+// "Quotes" and "Notes" headings, so custom templates should keep those.
+export const DEFAULT_NOTE_TEMPLATE = `{{#each metadata}}
+**{{label}}:** {{value}}
+{{/each}}
+
+**Abstract:**
+{{#if abstract}}{{abstract}}{{else}}No abstract available.{{/if}}
+
+{{#if citation}}
+## Citation
+{{citation}}
+
+{{/if}}
+## Key Ideas
+- 
+
+## Quotes
+{{#if highlights}}{{highlights}}{{else}}- {{/if}}
+{{#if importChildren}}
+
+## Notes
+{{#if notes}}{{notes}}{{else}}- {{/if}}
+{{/if}}
+
+## Critique
+- 
+
+## Related Work
+- 
+`;
+
+export const DEFAULT_NOTE_TEMPLATES: NoteTemplates = {
+    default: DEFAULT_NOTE_TEMPLATE,
+    byItemType: {},
+};
+
+// Item types offered for per-type templates in the UI; any Zotero item type works in config
+export const TEMPLATE_ITEM_TYPES = [
+    'journalArticle',
+    'book',
+    'bookSection',
+    'thesis',
+    'conferencePaper',
+    'report',
+    'preprint',
+    'webpage',
+    'magazineArticle',
+    'newspaperArticle',
+];
+
+// Placeholders available to templates, listed in the editor
+export const TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+    { name: 'title', description: 'Item title' },
+    { name: 'authors', description: 'All creators, comma separated' },
+    { name: 'creators', description: 'List of { name, firstName, lastName, creatorType }' },
+    { name: 'firstAuthor', description: 'First creator' },
+    { name: 'year', description: 'Year of the date field' },
+    { name: 'date', description: 'Date as entered in Zotero' },
+    { name: 'journal', description: 'Publication title' },
+    { name: 'bookTitle / publisher / place / university', description: 'Zotero fields, empty if unset' },
+    { name: 'volume / issue / pages / edition / series', description: 'Zotero fields, empty if unset' },
+    { name: 'doi / isbn / issn / url', description: 'Identifiers' },
+    { name: 'link', description: 'URL, or DOI if no URL' },
+    { name: 'dateAdded', description: 'YYYY-MM-DD' },
+    { name: 'itemType', description: 'e.g. Journal Article' },
+    { name: 'itemTypeId', description: 'e.g. journalArticle' },
+    { name: 'tags', description: 'List of tag names' },
+    { name: 'hashtags', description: 'Tags as "#tag_one #tag_two"' },
+    { name: 'abstract', description: 'Abstract' },
+    { name: 'collection', description: 'Collection path, when known' },
+    { name: 'citationKey', description: 'Citation key' },
+    { name: 'key', description: 'Zotero item key' },
+    { name: 'citation', description: 'Reference in the chosen citation style' },
+    { name: 'metadata', description: 'List of { label, value } header lines' },
+    { name: 'highlights', description: 'PDF annotations as a markdown list' },
+    { name: 'notes', description: 'Child notes as markdown' },
+    { name: 'importChildren', description: 'True when notes and highlights are imported' },
+];
+
+// Stands in for a real item in the template preview
+export const SAMPLE_ZOTERO_ITEM: ZoteroItem = {
+    key: 'ABCD2345',
+    version: 42,
+    data: {
+        key: 'ABCD2345',
+        version: 42,
+        itemType: 'journalArticle',
+        title: 'Attention Is All You Need',
+        creators: [
+            { creatorType: 'author', firstName: 'Ashish', lastName: 'Vaswani' },
+            { creatorType: 'author', firstName: 'Noam', lastName: 'Shazeer' },
+            { creatorType: 'author', firstName: 'Niki', lastName: 'Parmar' },
+        ],
+        date: '2017-06-12',
+        dateAdded: '2024-03-01T09:30:00Z',
+        publicationTitle: 'Advances in Neural Information Processing Systems',
+        volume: '30',
+        pages: '5998-6008',
+        url: 'https://arxiv.org/abs/1706.03762',
+        DOI: '10.48550/arXiv.1706.03762',
+        abstractNote: 'The dominant sequence transduction models are based on complex recurrent or convolutional neural networks...',
+        tags: [{ tag: 'transformers' }, { tag: 'machine learning' }],
+        extra: 'Citation Key: vaswani2017attention',
+    },
+};
+
+export const SAMPLE_CHILD_CONTENT: ZoteroChildContent = {
+    notes: [
+        {
+            key: 'NOTE2345',
+            version: 43,
+            data: {
+                key: 'NOTE2345',
+                version: 43,
+                itemType: 'note',
+                title: '',
+                creators: [],
+                tags: [],
+                parentItem: 'ABCD2345',
+                note: '<p>Read section 3 again before the <strong>reading group</strong>.</p>',
+            },
+        },
+    ],
+    annotations: [
+        {
+            key: 'ANNO2345',
+            version: 44,
+            data: {
+                key: 'ANNO2345',
+                version: 44,
+                itemType: 'annotation',
+                title: '',
+                creators: [],
+                tags: [],
+                annotationType: 'highlight',
+                annotationText: 'We propose a new simple network architecture, the Transformer.',
+                annotationComment: 'Core contribution',
+                annotationColor: '#ffd400',
+                annotationPageLabel: '1',
+            },
+        },
+    ],
+};
+
+/**
+ * Metadata header shown at the top of the note and patched in place on updates
+ */
+export function buildMetadataHeader(item: ZoteroItem, collectionPath?: string): Record<string, string> {
+    const tags = getSourceValue(item, 'tags') as string[];
+
+    const header: Record<string, string> = {
+        'Authors': ZoteroClient.formatAuthors(item.data.creators),
+        'Year': ZoteroClient.extractYear(item.data.date),
+        'Journal': item.data.publicationTitle || '',
+        'Link': getSourceValue(item, 'link') as string,
+        'Date Added': getSourceValue(item, 'dateAdded') as string,
+        'Publication Type': formatItemType(item.data.itemType || ''),
+        'Tags': tags.map((tag) => `#${tag.replace(/\s+/g, '_')}`).join(' '),
+    };
+    if (collectionPath) {
+        header['Collection'] = collectionPath;
+    }
+    return header;
+}
+
+// Values that come from the sync run rather than the item itself
+export interface NoteContext {
+    collectionPath?: string;
+    children?: ZoteroChildContent; // Only set when notes and highlights are imported
+    citation?: string; // Markdown, see citationMarkdown()
+}
+
+/**
+ * Values a note template can refer to
+ */
+export function buildTemplateContext(item: ZoteroItem, context: NoteContext = {}): Record<string, unknown> {
+    const { collectionPath, children, citation } = context;
+    const data = item.data;
+    const header = buildMetadataHeader(item, collectionPath);
+    const creators = (data.creators || []).map((c) => ({
+        name: c.name || `${c.firstName || ''} ${c.lastName || ''}`.trim(),
+        firstName: c.firstName || '',
+        lastName: c.lastName || c.name || '',
+        creatorType: c.creatorType,
+    }));
+
+    return {
+        title: data.title || 'Untitled',
+        authors: header['Authors'],
+        creators,
+        firstAuthor: creators[0]?.name || '',
+        year: header['Year'],
+        date: data.date || '',
+        journal: data.publicationTitle || '',
+        bookTitle: data.bookTitle || '',
+        publisher: data.publisher || '',
+        place: data.place || '',
+        university: data.university || '',
+        volume: data.volume || '',
+        issue: data.issue || '',
+        pages: data.pages || '',
+        edition: data.edition || '',
+        series: data.series || '',
+        doi: data.DOI || '',
+        isbn: data.ISBN || '',
+        issn: data.ISSN || '',
+        url: data.url || '',
+        link: header['Link'],
+        dateAdded: header['Date Added'],
+        itemType: header['Publication Type'],
+        itemTypeId: data.itemType || '',
+        tags: getSourceValue(item, 'tags'),
+        hashtags: header['Tags'],
+        abstract: data.abstractNote || '',
+        collection: collectionPath || '',
+        citationKey: extractCitationKey(item) || '',
+        key: item.key,
+        citation: citation || '',
+        metadata: Object.entries(header).map(([label, value]) => ({ label, value })),
+        highlights: children ? renderAnnotations(children.annotations) : '',
+        notes: children ? renderChildNotes(children.notes) : '',
+        importChildren: !!children,
+    };
+}
+
+/**
+ * The template for an item type: its own if configured and non-empty, else the default
+ */
+export function selectTemplate(templates: NoteTemplates, itemType: string): string {
+    return templates.byItemType?.[itemType]?.trim() ? templates.byItemType[itemType] : templates.default;
+}
+
+/**
+ * Renders the note body for an item. Throws TemplateError if the template is malformed.
+ */
+export function renderNoteBody(item: ZoteroItem, templates: NoteTemplates, context: NoteContext = {}): string {
+    const template = selectTemplate(templates, item.data.itemType || '');
+    return renderTemplate(template, buildTemplateContext(item, context));
+}
@@ -0,0 +1,70 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRis } from '@/lib/ris';
+
+describe('parseRis', () => {
+    test('reads repeated tags as lists and joins wrapped lines', () => {
+        const { items, errors } = parseRis([
+            '\uFEFFTY  - JOUR', // Byte order mark
+            'AU  - Smith, Jane',
+            'AU  - John Doe',
+            'A2  - Editor, Ed',
+            'TI  - A study of',
+            '  wrapped titles',
+            'JO  - Journal of Things',
+            'PY  - 2017/06/12/',
+            'SP  - 15',
+            'EP  - 27',
+            'KW  - alpha',
+            'KW  - beta',
+            'KW  - alpha',
+            'DO  - 10.1000/xyz',
+            'ER  - ',
+        ].join('\r\n'), 1);
+
+        assert.deepEqual(errors, []);
+        const data = items[0].data;
+        assert.equal(data.itemType, 'journalArticle');
+        assert.equal(data.title, 'A study of wrapped titles');
+        assert.deepEqual(data.creators, [
+            { creatorType: 'author', lastName: 'Smith', firstName: 'Jane' },
+            { creatorType: 'author', lastName: 'Doe', firstName: 'John' },
+            { creatorType: 'editor', lastName: 'Editor', firstName: 'Ed' },
+        ]);
+        assert.equal(data.publicationTitle, 'Journal of Things');
+        assert.equal(data.date, '2017-06-12');
+        assert.equal(data.pages, '15-27');
+        assert.deepEqual(data.tags, [{ tag: 'alpha' }, { tag: 'beta' }]);
+    });
+
+    test('maps types and the fields that depend on them', () => {
+        const { items } = parseRis([
+            'TY  - CHAP', 'TI  - Chapter', 'T2  - The Book', 'PB  - Press', 'PY  - 2001///', 'ER  - ',
+            'TY  - THES', 'TI  - Thesis', 'PB  - University', 'ER  - ',
+            'TY - UNKNOWN', 'TI - Other', 'ER - ',
+        ].join('\n'), 1);
+
+        assert.deepEqual(items.map((item) => item.data.itemType), ['bookSection', 'thesis', 'document']);
+        assert.equal(items[0].data.bookTitle, 'The Book');
+        assert.equal(items[0].data.publicationTitle, undefined);
+        assert.equal(items[0].data.date, '2001');
+        assert.equal(items[1].data.university, 'University');
+        assert.equal(items[1].data.publisher, undefined);
+    });
+
+    test('reports entries without a title or an end record', () => {
+        const { items, errors } = parseRis([
+            'TY  - JOUR', 'ID  - no-title', 'PY  - 2020', 'ER  - ',
+            'TY  - JOUR', 'TI  - Cut off',
+            'TY  - JOUR', 'TI  - Complete', 'ER  - ',
+            'TY  - BOOK', 'TI  - Truncated file',
+        ].join('\n'), 1);
+
+        assert.deepEqual(items.map((item) => item.data.title), ['Complete']);
+        assert.deepEqual(errors, [
+            { entry: 'no-title', message: 'Missing title' },
+            { entry: 'Cut off', message: 'Entry has no end record (ER)' },
+            { entry: 'Truncated file', message: 'Entry has no end record (ER)' },
+        ]);
+    });
+});
@@ -0,0 +1,130 @@
+// Reads RIS files (EndNote, Mendeley, publisher "export citation" links) into ZoteroItemData.
+
+import { formatDateParts, ImportedFields, parsePersonName, toImportedItem } from '@/lib/import-item';
+import { ImportError } from '@/types/import';
+import { ZoteroItem } from '@/types/zotero';
+
+const ITEM_TYPES: Record<string, string> = {
+    JOUR: 'journalArticle',
+    JFULL: 'journalArticle',
+    EJOUR: 'journalArticle',
+    MGZN: 'magazineArticle',
+    NEWS: 'newspaperArticle',
+    BOOK: 'book',
+    EBOOK: 'book',
+    EDBOOK: 'book',
+    CHAP: 'bookSection',
+    ECHAP: 'bookSection',
+    CONF: 'conferencePaper',
+    CPAPER: 'conferencePaper',
+    THES: 'thesis',
+    RPRT: 'report',
+    ELEC: 'webpage',
+    WEB: 'webpage',
+    UNPB: 'manuscript',
+};
+
+// "TY  - JOUR"; some exporters drop the space before the dash
+const TAG_LINE = /^([A-Z][A-Z0-9])  ?- ?(.*)$/;
+
+type RisEntry = Record<string, string[]>;
+
+// "2017/06/12/" or "2017///" -> 2017-06-12 / 2017
+function parseRisDate(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const [year, month, day] = value.split('/').map((part) => part.trim());
+    if (!/^\d{4}$/.test(year || '')) return value.trim();
+    return formatDateParts(year, month || undefined, day || undefined);
+}
+
+function toFields(entry: RisEntry): ImportedFields {
+    const first = (...tags: string[]) => tags.map((tag) => entry[tag]?.[0]).find(Boolean);
+    const all = (...tags: string[]) => tags.flatMap((tag) => entry[tag] || []);
+
+    const itemType = ITEM_TYPES[first('TY') || ''] || 'document';
+    const container = first('JO', 'JF', 'T2', 'JA', 'J2');
+    const startPage = first('SP');
+    const endPage = first('EP');
+    const pages = startPage && endPage && !startPage.includes('-') ? `${startPage}-${endPage}` : startPage;
+    const serial = first('SN');
+
+    return {
+        itemType,
+        title: first('TI', 'T1', 'CT', 'BT') || '',
+        creators: [
+            ...all('AU', 'A1').map((name) => parsePersonName(name, 'author')),
+            ...all('ED', 'A2').map((name) => parsePersonName(name, 'editor')),
+        ],
+        date: parseRisDate(first('DA', 'PY', 'Y1')),
+        publicationTitle: itemType === 'bookSection' ? undefined : container,
+        bookTitle: itemType === 'bookSection' ? container : undefined,
+        publisher: itemType === 'thesis' ? undefined : first('PB'),
+        university: itemType === 'thesis' ? first('PB') : undefined,
+        place: first('CY', 'PP'),
+        volume: first('VL'),
+        issue: first('IS'),
+        pages,
+        edition: first('ET'),
+        series: first('T3'),
+        language: first('LA'),
+        url: first('UR', 'L2'),
+        DOI: first('DO'),
+        abstractNote: first('AB', 'N2'),
+        ...(itemType === 'journalArticle' ? { ISSN: serial } : { ISBN: serial }),
+        tags: all('KW'),
+    };
+}
+
+/**
+ * Parses a RIS file. Entries without a title, or cut off before their "ER" line,
+ * are reported in `errors` and the rest are still returned.
+ */
+export function parseRis(content: string, version: number): { items: ZoteroItem[]; errors: ImportError[] } {
+    const items: ZoteroItem[] = [];
+    const errors: ImportError[] = [];
+
+    let entry: RisEntry | null = null;
+    let lastTag = '';
+    let count = 0;
+
+    const finish = (ended: boolean) => {
+        if (!entry) return;
+        count++;
+        const fields = toFields(entry);
+        const label = entry.ID?.[0] || fields.title || `Entry ${count}`;
+
+        if (!ended) errors.push({ entry: label, message: 'Entry has no end record (ER)' });
+        else if (!fields.title) errors.push({ entry: label, message: 'Missing title' });
+        else items.push(toImportedItem(fields, version));
+        entry = null;
+    };
+
+    for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+        const match = line.match(TAG_LINE);
+
+        if (!match) {
+            // Continuation of a wrapped value
+            if (entry && lastTag && line.trim()) {
+                const values = entry[lastTag];
+                values[values.length - 1] += ` ${line.trim()}`;
+            }
+            continue;
+        }
+
+        const [, tag, value] = match;
+        if (tag === 'TY') {
+            finish(false);
+            entry = {};
+        } else if (tag === 'ER') {
+            finish(true);
+            continue;
+        }
+        if (!entry) continue;
+
+        lastTag = tag;
+        (entry[tag] ||= []).push(value.trim());
+    }
+    finish(false);
+
+    return { items, errors };
+}
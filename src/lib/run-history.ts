@@ -0,0 +1,199 @@
+import { randomUUID } from 'crypto';
+import { deleteJsonFile, readJsonFile, writeJsonFile } from '@/lib/storage';
+import { RunRecord, RunSummary, RunTrigger } from '@/types/history';
+import { SyncConfig, SyncEvent, SyncSummary } from '@/types/sync';
+
+// Past runs, stored in the data directory (see storage.ts): runs.json lists them,
+// newest first, and runs/<id>.json holds each run's items and messages.
+
+const RUNS_FILE = 'runs.json';
+const MAX_RUNS = 100; // Older runs are dropped
+// How often a running run's record is saved, so a crash loses at most this much of it
+const SAVE_INTERVAL_MS = 2000;
+
+// Index updates are chained so runs finishing together don't overwrite each other
+let writeQueue: Promise<void> = Promise.resolve();
+
+function runFile(id: string): string {
+    return `runs/${id}.json`;
+}
+
+function updateIndex(update: (runs: RunSummary[]) => RunSummary[]): Promise<void> {
+    writeQueue = writeQueue
+        .then(async () => {
+            // Read every time: the CLI and the server may share the data directory
+            const runs = await readJsonFile<RunSummary[]>(RUNS_FILE, []);
+            const updated = update(runs);
+            await writeJsonFile(RUNS_FILE, updated.slice(0, MAX_RUNS));
+            for (const dropped of updated.slice(MAX_RUNS)) {
+                await deleteJsonFile(runFile(dropped.id));
+            }
+        })
+        .catch((error) => console.error('Failed to save run history:', error));
+    return writeQueue;
+}
+
+export async function listRuns(): Promise<RunSummary[]> {
+    return readJsonFile<RunSummary[]>(RUNS_FILE, []);
+}
+
+export async function getRun(id: string): Promise<RunRecord | null> {
+    // IDs are UUIDs; anything else could point outside the runs folder
+    if (!/^[\w-]+$/.test(id)) return null;
+    return readJsonFile<RunRecord | null>(runFile(id), null);
+}
+
+// Whether the process is still running (one of another user counts as running)
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: unknown) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+// Counts of a record's saved items and messages, for a run that never reported its own
+function countOutcomes(record: RunRecord): SyncSummary {
+    const count = (type: string) => [...record.items, ...record.messages].filter((entry) => entry.type === type).length;
+    return {
+        created: count('item-created'),
+        updated: count('item-updated'),
+        skipped: count('item-skipped'),
+        failed: count('item-failed'),
+        warnings: count('warning'),
+        errors: count('error'),
+    };
+}
+
+/**
+ * Marks runs whose process stopped before they finished (a crash or a shutdown) as
+ * interrupted, with the counts of the items they had saved. Called when the server or
+ * the CLI starts.
+ */
+export async function markInterruptedRuns(): Promise<void> {
+    const runs = await listRuns();
+    const interrupted = runs.filter((run) => !run.finishedAt && !run.outcome && !(run.pid && isProcessAlive(run.pid)));
+    if (interrupted.length === 0) return;
+
+    const summaries = new Map<string, SyncSummary | undefined>();
+    for (const run of interrupted) {
+        const record = await getRun(run.id);
+        const summary = record ? countOutcomes(record) : undefined;
+        summaries.set(run.id, summary);
+        if (record) {
+            try {
+                await writeJsonFile(runFile(run.id), { ...record, outcome: 'interrupted', summary });
+            } catch (error: unknown) {
+                console.error('Failed to save run record:', error);
+            }
+        }
+    }
+
+    await updateIndex((all) => all.map((run) => (summaries.has(run.id)
+        ? { ...run, outcome: 'interrupted', summary: summaries.get(run.id) }
+        : run)));
+}
+
+// The settings without credentials, so the history can be shared when reporting a problem
+function redactConfig(config: SyncConfig): SyncConfig {
+    return {
+        ...config,
+        zotero: { ...config.zotero, apiKey: config.zotero?.apiKey ? '(redacted)' : '' },
+        craft: {
+            ...config.craft,
+            apiKey: config.craft?.apiKey ? '(redacted)' : undefined,
+            linkId: config.craft?.linkId ? '(redacted)' : '',
+        },
+    };
+}
+
+/**
+ * Collects the events of one run and saves them to the history: the index entry when the
+ * run starts, the record with the items so far as it goes, and the full record once it finishes
+ */
+export class RunRecorder {
+    private record: RunRecord;
+    private saving: Promise<void> = Promise.resolve();
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(trigger: RunTrigger, config: SyncConfig, id: string = randomUUID()) {
+        this.record = {
+            id,
+            trigger,
+            dryRun: false,
+            source: 'zotero',
+            startedAt: new Date().toISOString(),
+            pid: process.pid,
+            config: redactConfig(config),
+            items: [],
+            messages: [],
+        };
+    }
+
+    get id(): string {
+        return this.record.id;
+    }
+
+    // Saving never fails the run: a broken history is logged and left behind
+    async handle(event: SyncEvent): Promise<void> {
+        switch (event.type) {
+            case 'run-started':
+                this.record = { ...this.record, dryRun: event.dryRun, source: event.source, startedAt: event.at };
+                await updateIndex((runs) => [this.summary(), ...runs]);
+                await this.saveRecord();
+                break;
+
+            case 'item-created':
+            case 'item-updated':
+            case 'item-skipped':
+            case 'item-failed': {
+                const { type, itemKey, title, details, craftId, errorCategory, durationMs } = event;
+                this.record.items.push({ type, itemKey, title, details, craftId, errorCategory, durationMs });
+                this.scheduleSave();
+                break;
+            }
+
+            case 'warning':
+            case 'error':
+                this.record.messages.push({ type: event.type, message: event.message, errorCategory: event.errorCategory, at: event.at });
+                this.scheduleSave();
+                break;
+
+            case 'run-finished':
+                this.record = {
+                    ...this.record,
+                    finishedAt: event.at,
+                    outcome: event.outcome,
+                    elapsedMs: event.elapsedMs,
+                    summary: event.summary,
+                };
+                await this.saveRecord();
+                await updateIndex((runs) => runs.map((run) => (run.id === this.record.id ? this.summary() : run)));
+                break;
+        }
+    }
+
+    // Saves the items so far within SAVE_INTERVAL_MS, instead of rewriting the record per item
+    private scheduleSave() {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => this.saveRecord(), SAVE_INTERVAL_MS);
+    }
+
+    private saveRecord(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        const record = { ...this.record, items: [...this.record.items], messages: [...this.record.messages] };
+        this.saving = this.saving
+            .then(() => writeJsonFile(runFile(record.id), record))
+            .catch((error) => console.error('Failed to save run record:', error));
+        return this.saving;
+    }
+
+    private summary(): RunSummary {
+        const { id, trigger, dryRun, source, startedAt, finishedAt, outcome, elapsedMs, summary, pid } = this.record;
+        return { id, trigger, dryRun, source, startedAt, finishedAt, outcome, elapsedMs, summary, pid };
+    }
+}
@@ -0,0 +1,264 @@
+import { isSyncRunning } from '@/lib/sync';
+import { getJobManager, JobConflictError } from '@/lib/jobs';
+import { readJsonFile, writeJsonFile } from '@/lib/storage';
+import { ZoteroStreamListener } from '@/lib/zotero-stream';
+import { ZoteroClient } from '@/lib/zotero';
+import { RunTrigger } from '@/types/history';
+import { PushStatus, ScheduleConfig, ScheduleStatus, SyncConfig } from '@/types/sync';
+
+const SCHEDULE_FILE = 'schedule.json';
+const SCHEDULED_MAX_ITEMS = 50;
+// Zotero reports every saved edit; wait for a burst of changes to settle before syncing
+const PUSH_DEBOUNCE_MS = 15 * 1000;
+
+interface SchedulerData {
+    schedule: ScheduleConfig;
+    config?: SyncConfig;
+    lastRunAt?: string;
+    lastRunStatus?: ScheduleStatus['lastRunStatus'];
+    lastRunDetails?: string;
+}
+
+const DEFAULT_DATA: SchedulerData = {
+    schedule: { enabled: false, intervalMinutes: 60 },
+};
+
+/**
+ * Thrown when a schedule update is rejected because of its input
+ */
+export class ScheduleValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ScheduleValidationError';
+    }
+}
+
+/**
+ * Runs the sync pipeline on an interval from the server process, so auto-sync
+ * keeps working when no browser tab is open. The schedule and the sync config
+ * it runs with are persisted and re-armed when the server starts. With push
+ * enabled, changes reported by Zotero's streaming API also trigger a sync.
+ */
+export class SyncScheduler {
+    private data: SchedulerData = DEFAULT_DATA;
+    private loading: Promise<void> | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private nextRunAt: Date | null = null;
+    private running = false;
+    private stream: ZoteroStreamListener | null = null;
+    private pushUnavailable: string | null = null; // Why push sync can't run with this config
+    private pushTimer: ReturnType<typeof setTimeout> | null = null;
+    private pushPending = false; // A change arrived while a sync was running
+
+    constructor(private pushDebounceMs = PUSH_DEBOUNCE_MS) {}
+
+    async start(): Promise<void> {
+        if (!this.loading) {
+            this.loading = (async () => {
+                this.data = await readJsonFile<SchedulerData>(SCHEDULE_FILE, DEFAULT_DATA);
+                // Saved by older versions even with auto-sync off
+                if (!this.data.schedule.enabled && this.data.config) {
+                    this.data = { ...this.data, config: undefined };
+                    await writeJsonFile(SCHEDULE_FILE, this.data);
+                }
+                this.arm();
+                this.armPush();
+            })();
+        }
+        return this.loading;
+    }
+
+    async update(schedule: ScheduleConfig, config?: SyncConfig): Promise<ScheduleStatus> {
+        await this.start();
+
+        if (!Number.isFinite(schedule.intervalMinutes) || schedule.intervalMinutes < 1) {
+            throw new ScheduleValidationError('Interval must be at least 1 minute');
+        }
+
+        const intervalChanged = schedule.intervalMinutes !== this.data.schedule.intervalMinutes;
+        const wasEnabled = this.data.schedule.enabled;
+
+        this.data = {
+            ...this.data,
+            schedule: { enabled: schedule.enabled, intervalMinutes: schedule.intervalMinutes, push: schedule.push },
+            // The config holds API keys: only kept on disk while auto-sync needs it
+            config: schedule.enabled ? config || this.data.config : undefined,
+        };
+        await writeJsonFile(SCHEDULE_FILE, this.data);
+
+        // Only reset the countdown when the timing actually changed; config-only
+        // updates (e.g. a new API key) keep the next run where it was.
+        if (intervalChanged || wasEnabled !== schedule.enabled || !this.timer) {
+            this.arm();
+        }
+        // Keeps the stream connection if the library and key stay the same
+        this.armPush();
+
+        return this.getStatus();
+    }
+
+    getStatus(): ScheduleStatus {
+        return {
+            schedule: this.data.schedule,
+            running: this.running,
+            nextRunAt: this.nextRunAt?.toISOString(),
+            lastRunAt: this.data.lastRunAt,
+            lastRunStatus: this.data.lastRunStatus,
+            lastRunDetails: this.data.lastRunDetails,
+            push: this.getPushStatus(),
+        };
+    }
+
+    private getPushStatus(): PushStatus | undefined {
+        if (this.stream) return this.stream.getStatus();
+        if (this.pushUnavailable) return { state: 'unavailable', details: this.pushUnavailable };
+        return undefined;
+    }
+
+    private arm() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.nextRunAt = null;
+
+        const { enabled, intervalMinutes } = this.data.schedule;
+        if (!enabled || !this.data.config) return;
+
+        const delay = intervalMinutes * 60 * 1000;
+        this.nextRunAt = new Date(Date.now() + delay);
+        this.timer = setTimeout(() => {
+            this.tick().catch((error) => console.error('Scheduled sync failed:', error));
+        }, delay);
+    }
+
+    /**
+     * Connects to the streaming API for the configured library when push is on,
+     * and disconnects when it is turned off or the library changes
+     */
+    private armPush() {
+        const { enabled, push } = this.data.schedule;
+        const zotero = this.data.config?.zotero;
+        this.pushUnavailable = null;
+
+        let options: { apiKey: string; topic: string; url?: string } | null = null;
+        if (enabled && push && zotero) {
+            if (zotero.source === 'local') {
+                this.pushUnavailable = 'Push sync needs the Zotero web API; the local API has no change stream';
+            } else if (!zotero.apiKey) {
+                this.pushUnavailable = 'Push sync needs a Zotero API key';
+            } else {
+                const topic = new ZoteroClient(zotero).getStreamTopic();
+                options = { apiKey: zotero.apiKey, topic, url: process.env.ZOTERO_STREAM_URL };
+            }
+        }
+
+        if (this.stream && (!options || !this.stream.matches(options))) {
+            this.stream.stop();
+            this.stream = null;
+        }
+        if (!options) {
+            if (this.pushTimer) clearTimeout(this.pushTimer);
+            this.pushTimer = null;
+            return;
+        }
+
+        if (!this.stream) {
+            this.stream = new ZoteroStreamListener({ ...options, onTopicUpdated: () => this.schedulePushRun() });
+            this.stream.start();
+        }
+    }
+
+    // Restarts the debounce window on every change, so a burst of edits syncs once
+    private schedulePushRun() {
+        if (this.pushTimer) clearTimeout(this.pushTimer);
+        this.pushTimer = setTimeout(() => {
+            this.pushTimer = null;
+            this.pushRun().catch((error) => console.error('Push-triggered sync failed:', error));
+        }, this.pushDebounceMs);
+    }
+
+    private async pushRun() {
+        if (this.running) {
+            // Run again once the current sync is done, so the change isn't missed
+            this.pushPending = true;
+            return;
+        }
+        if (isSyncRunning(this.data.config)) {
+            // Someone else's sync; try again after another quiet period
+            this.schedulePushRun();
+            return;
+        }
+        await this.run('push');
+    }
+
+    private async tick() {
+        // Arm the next run first so a slow sync does not push the schedule back
+        this.arm();
+
+        if (this.running || isSyncRunning(this.data.config)) {
+            console.warn('Scheduled sync skipped: previous sync still running');
+            await this.recordRun('skipped', 'Previous sync still running');
+            return;
+        }
+
+        await this.run();
+    }
+
+    private async run(trigger: RunTrigger = 'auto') {
+        const config = this.data.config;
+        if (!config) return;
+
+        this.running = true;
+        this.pushPending = false;
+        let firstError: string | undefined;
+
+        try {
+            // Runs as a job, so the page can follow and cancel scheduled runs too
+            const job = getJobManager().start(config, { maxItems: SCHEDULED_MAX_ITEMS }, trigger);
+            job.subscribe((event) => {
+                if (firstError) return;
+                if (event.type === 'error') firstError = event.message;
+                if (event.type === 'item-failed') firstError = `${event.title}: ${event.details}`;
+            });
+            const { summary } = await job.done;
+
+            const suffix = trigger === 'push' ? ' (after a Zotero change)' : '';
+            const errors = summary.errors + summary.failed;
+            if (errors > 0) {
+                await this.recordRun('error', `${errors} error(s): ${firstError}${suffix}`);
+            } else {
+                await this.recordRun('success', `${summary.created} item(s) created${suffix}`);
+            }
+        } catch (error: unknown) {
+            if (error instanceof JobConflictError) {
+                await this.recordRun('skipped', 'Another sync is running for this destination');
+            } else {
+                await this.recordRun('error', error instanceof Error ? error.message : String(error));
+            }
+        } finally {
+            this.running = false;
+            if (this.pushPending) this.schedulePushRun();
+        }
+    }
+
+    private async recordRun(status: ScheduleStatus['lastRunStatus'], details: string) {
+        this.data = {
+            ...this.data,
+            lastRunAt: new Date().toISOString(),
+            lastRunStatus: status,
+            lastRunDetails: details,
+        };
+        await writeJsonFile(SCHEDULE_FILE, this.data);
+    }
+}
+
+// One scheduler per server process, shared across route module instances
+const globalForScheduler = globalThis as unknown as { zotcraftScheduler?: SyncScheduler };
+
+export function getScheduler(): SyncScheduler {
+    if (!globalForScheduler.zotcraftScheduler) {
+        globalForScheduler.zotcraftScheduler = new SyncScheduler();
+    }
+    return globalForScheduler.zotcraftScheduler;
+}
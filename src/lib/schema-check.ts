@@ -0,0 +1,65 @@
+import { IDENTITY_PROPERTIES } from '@/lib/identity';
+import { CraftProperty, ExpectedProperty, SchemaCheckResult, SchemaIssue } from '@/types/craft';
+import { FieldMapping } from '@/types/mapping';
+
+// The ZotCraft template's properties, as written by the default field mappings
+export const EXPECTED_PROPERTIES: ExpectedProperty[] = [
+    { name: 'Authors', type: 'text', accepts: ['text', 'richText'] },
+    { name: 'Year', type: 'number', accepts: ['number', 'text'] },
+    { name: 'Journal', type: 'text', accepts: ['text', 'richText', 'select'] },
+    { name: 'URL', type: 'url', accepts: ['url', 'text'] },
+    { name: 'Date added', type: 'date', accepts: ['date', 'text'] },
+    { name: 'Publication type', type: 'select', accepts: ['select', 'multiSelect', 'text'] },
+    { name: 'Tags', type: 'multiSelect', accepts: ['multiSelect', 'text'] },
+    { name: 'Reading status', type: 'select', accepts: ['select'], options: ['Waiting', 'Reading', 'Done'] },
+    { name: IDENTITY_PROPERTIES.zoteroKey, type: 'text', accepts: ['text'], optional: true },
+];
+
+/**
+ * The expected properties the configured mappings write to. Properties of custom
+ * mappings have no expected type, so only their presence is checked.
+ */
+export function getExpectedProperties(mappings?: FieldMapping[]): ExpectedProperty[] {
+    if (!mappings) return EXPECTED_PROPERTIES;
+
+    const targets = new Set(mappings.map((mapping) => mapping.target));
+    const expected = EXPECTED_PROPERTIES.filter((prop) => prop.optional || targets.has(prop.name));
+    for (const target of targets) {
+        if (target && !expected.some((prop) => prop.name === target)) {
+            expected.push({ name: target, type: 'text', accepts: [] });
+        }
+    }
+    return expected;
+}
+
+/**
+ * Compares a collection's properties against the expected ones. Property names must
+ * match exactly, as the sync looks them up by name.
+ */
+export function checkCollectionSchema(properties: CraftProperty[], expected: ExpectedProperty[]): SchemaCheckResult {
+    const issues: SchemaIssue[] = [];
+
+    for (const want of expected) {
+        const actual = properties.find((prop) => prop.name === want.name);
+        if (!actual) {
+            const similar = properties.find((prop) => prop.name.toLowerCase() === want.name.toLowerCase());
+            issues.push({
+                property: want.name,
+                problem: 'missing',
+                expectedType: want.type,
+                similar: similar?.name,
+                optional: want.optional,
+            });
+        } else if (want.accepts.length > 0 && !want.accepts.includes(actual.type)) {
+            issues.push({
+                property: want.name,
+                problem: 'wrongType',
+                expectedType: want.accepts.join(' or '),
+                actualType: actual.type,
+                optional: want.optional,
+            });
+        }
+    }
+
+    return { ok: issues.every((issue) => issue.optional), issues };
+}
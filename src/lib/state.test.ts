@@ -0,0 +1,78 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { claimUnscopedState, getLibraryVersion, getSyncedItem, markAsProcessed, saveSyncState, SyncStateError } from '@/lib/state';
+
+function readFile(dir: string) {
+    return JSON.parse(readFileSync(path.join(dir, 'state.json'), 'utf-8'));
+}
+
+describe('sync state', () => {
+    let dir: string;
+    const previousDataDir = process.env.ZOTCRAFT_DATA_DIR;
+
+    before(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'zotcraft-state-'));
+        process.env.ZOTCRAFT_DATA_DIR = dir;
+    });
+
+    after(() => {
+        process.env.ZOTCRAFT_DATA_DIR = previousDataDir;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('batches records until they are saved', async () => {
+        await markAsProcessed('A', { version: 1, craftId: 'craft-a' });
+        await markAsProcessed('B', { version: 2, craftId: 'craft-b' });
+        assert.equal((await getSyncedItem('B'))?.craftId, 'craft-b');
+
+        await saveSyncState();
+        assert.deepEqual(Object.keys(readFile(dir).items), ['A', 'B']);
+    });
+
+    test('keeps records another process wrote', async () => {
+        const state = readFile(dir);
+        state.items.OTHER = { version: 5, craftId: 'craft-other', syncedAt: new Date().toISOString() };
+        writeFileSync(path.join(dir, 'state.json'), JSON.stringify(state));
+
+        await markAsProcessed('C', { version: 3, craftId: 'craft-c' });
+        await saveSyncState();
+        assert.deepEqual(Object.keys(readFile(dir).items).sort(), ['A', 'B', 'C', 'OTHER']);
+    });
+
+    test('rejects once saving fails, and keeps the records for the next save', async () => {
+        await markAsProcessed('D', { version: 4, craftId: 'craft-d' });
+        // A file where the data directory should be makes every write fail
+        const blocked = path.join(dir, 'blocked');
+        writeFileSync(blocked, '');
+        process.env.ZOTCRAFT_DATA_DIR = blocked;
+        try {
+            await assert.rejects(saveSyncState(), SyncStateError);
+            await assert.rejects(markAsProcessed('E', { version: 5, craftId: 'craft-e' }), SyncStateError);
+        } finally {
+            process.env.ZOTCRAFT_DATA_DIR = dir;
+        }
+
+        await saveSyncState();
+        assert.equal(readFile(dir).items.D.craftId, 'craft-d');
+    });
+
+    test('gives records without a scope to the first Craft target', async () => {
+        const state = readFile(dir);
+        state.items = { LEGACY: { version: 7, craftId: 'craft-legacy', syncedAt: new Date().toISOString() } };
+        state.libraryVersions = { 'users/1/collections/ABC': 40 };
+        writeFileSync(path.join(dir, 'state.json'), JSON.stringify(state));
+
+        await claimUnscopedState('markdown:/notes');
+        assert.equal(await getSyncedItem('markdown:/notes|LEGACY'), undefined);
+
+        await claimUnscopedState('craft:COLLECTION');
+        await claimUnscopedState('craft:OTHER');
+        assert.equal((await getSyncedItem('craft:COLLECTION|LEGACY'))?.craftId, 'craft-legacy');
+        assert.equal(await getSyncedItem('craft:OTHER|LEGACY'), undefined);
+        assert.equal(await getLibraryVersion('users/1/collections/ABC -> craft:COLLECTION'), 40);
+        assert.equal(await getLibraryVersion('users/1/collections/ABC -> craft:OTHER'), 0);
+    });
+});
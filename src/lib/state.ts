@@ -1,31 +1,187 @@
-// In-memory state for serverless environments (Vercel)
-// Note: This resets on each deployment/function restart
-// For persistent state, consider using a database or external storage
+import { getFileModifiedTime, readJsonFile, writeJsonFile } from '@/lib/storage';
+
+// Persistent sync state, stored as state.json in the data directory (see storage.ts).
+// Note: On Vercel the filesystem is ephemeral, so point ZOTCRAFT_DATA_DIR at a
+// persistent volume or run locally to keep state between deployments.
+
+const STATE_FILE = 'state.json';
+
+export interface SyncedItem {
+    version: number;   // Zotero item version at the time of the last sync
+    craftId: string;   // Craft collection item or page block created for it (the file name for a markdown folder)
+    syncedAt: string;  // ISO timestamp
+    fields?: Record<string, string>; // Metadata snapshot, used to report which fields changed on update
+    childKeys?: string[]; // Notes and annotations already imported into the Craft note
+    incomplete?: boolean; // Created without its body (see IncompleteItemError); the next run adds it
+}
 
 export interface SyncState {
-    processedKeys: string[];
+    items: Record<string, SyncedItem>; // Zotero item key (prefixed with the destination scope) -> last sync record
+    libraryVersions: Record<string, number>; // Sync scope (library + collection) -> last synced library version
     lastSync?: string;
 }
 
-// In-memory cache
-let memoryState: SyncState = {
-    processedKeys: [],
-};
+// Records are batched: changes apply to the cached state at once and reach the disk
+// within this interval, or when a run calls saveSyncState()
+const SAVE_INTERVAL_MS = 1000;
+
+/**
+ * Thrown once saving state.json has failed: items synced after that could not be recorded,
+ * and a run that carried on would create them again next time
+ */
+export class SyncStateError extends Error {
+    constructor(cause: unknown) {
+        super(`Failed to save sync state: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+        this.name = 'SyncStateError';
+    }
+}
+
+interface StateStore {
+    cached: SyncState | null;
+    modifiedTime: number; // Of the file when it was last read or written here
+    pending: Array<(state: SyncState) => void>; // Applied to the cache, not saved yet
+    timer: ReturnType<typeof setTimeout> | null;
+    failure: SyncStateError | null;
+    // Saves are chained so they never interleave
+    queue: Promise<void>;
+}
+
+// Kept on globalThis so one queue and cache serve the whole process, even if Next.js
+// loads this module more than once
+const globalForState = globalThis as unknown as { zotcraftState?: StateStore };
+const store = (globalForState.zotcraftState ??= {
+    cached: null,
+    modifiedTime: 0,
+    pending: [],
+    timer: null,
+    failure: null,
+    queue: Promise.resolve(),
+});
+
+async function readState(): Promise<SyncState> {
+    const state = await readJsonFile<SyncState>(STATE_FILE, { items: {}, libraryVersions: {} });
+    return { ...state, items: state.items || {}, libraryVersions: state.libraryVersions || {} };
+}
+
+// The file as it is now with the unsaved changes on top. Only read again if it changed
+// since this process last saw it: the CLI and the server may share the data directory.
+async function loadState(): Promise<SyncState> {
+    const modifiedTime = await getFileModifiedTime(STATE_FILE);
+    if (!store.cached || modifiedTime !== store.modifiedTime) {
+        const state = await readState();
+        for (const change of store.pending) change(state);
+        store.cached = state;
+        store.modifiedTime = modifiedTime;
+    }
+    return store.cached;
+}
+
+function save(): Promise<void> {
+    if (store.timer) {
+        clearTimeout(store.timer);
+        store.timer = null;
+    }
+    store.queue = store.queue.then(async () => {
+        if (store.pending.length === 0) return;
+        const saving = store.pending;
+        try {
+            // Re-applies the changes if another process wrote the file in the meantime
+            await writeJsonFile(STATE_FILE, await loadState());
+            store.modifiedTime = await getFileModifiedTime(STATE_FILE);
+        } catch (error: unknown) {
+            store.failure = new SyncStateError(error);
+            throw store.failure;
+        }
+        store.pending = store.pending.slice(saving.length);
+        store.failure = null;
+    });
+    // A failed save leaves its changes pending for the next one
+    const saved = store.queue;
+    store.queue = saved.catch(() => {});
+    return saved;
+}
+
+async function update(change: (state: SyncState) => void): Promise<void> {
+    if (store.failure) throw store.failure;
+    const state = await loadState();
+    change(state);
+    store.pending.push(change);
+    store.timer ??= setTimeout(() => {
+        store.timer = null;
+        save().catch((error) => console.error(error));
+    }, SAVE_INTERVAL_MS);
+}
+
+/**
+ * Writes the changes not saved yet to state.json. Rejects with SyncStateError if that fails.
+ */
+export function saveSyncState(): Promise<void> {
+    return save();
+}
 
 export async function getSyncState(): Promise<SyncState> {
-    // Always use in-memory state for serverless compatibility
-    return memoryState;
+    return loadState();
+}
+
+export async function getSyncedItem(itemKey: string): Promise<SyncedItem | undefined> {
+    const state = await loadState();
+    return state.items[itemKey];
+}
+
+export async function markAsProcessed(itemKey: string, record: Omit<SyncedItem, 'syncedAt'>): Promise<void> {
+    const now = new Date().toISOString();
+    await update((state) => {
+        state.items[itemKey] = { ...record, syncedAt: now };
+        state.lastSync = now;
+    });
+}
+
+/**
+ * Library version the given scope was last synced up to (0 if never synced)
+ */
+export async function getLibraryVersion(scope: string): Promise<number> {
+    const state = await loadState();
+    return state.libraryVersions[scope] || 0;
+}
+
+export async function setLibraryVersion(scope: string, version: number): Promise<void> {
+    await update((state) => {
+        state.libraryVersions[scope] = version;
+    });
 }
 
-export async function markAsProcessed(itemKey: string): Promise<void> {
-    if (!memoryState.processedKeys.includes(itemKey)) {
-        memoryState.processedKeys.push(itemKey);
-        memoryState.lastSync = new Date().toISOString();
+/**
+ * Moves records saved before sync state was kept per target (no scope in their keys) to
+ * the given destination scope if it is a Craft one. Only Craft syncs wrote those, so the
+ * first Craft target synced after upgrading takes them over.
+ */
+export async function claimUnscopedState(scope: string): Promise<void> {
+    if (!scope.startsWith('craft:')) return;
+    // See the key formats in sync.ts: "<scope>|<item key>" and "<library> -> <scope>"
+    const unscopedItem = (key: string) => !key.includes('|');
+    const unscopedVersion = (key: string) => !key.includes(' -> ');
+    const current = await loadState();
+    if (!Object.keys(current.items).some(unscopedItem) && !Object.keys(current.libraryVersions).some(unscopedVersion)) {
+        return;
     }
+    await update((state) => {
+        for (const [key, item] of Object.entries(state.items)) {
+            if (!unscopedItem(key)) continue;
+            state.items[`${scope}|${key}`] ??= item;
+            delete state.items[key];
+        }
+        for (const [key, version] of Object.entries(state.libraryVersions)) {
+            if (!unscopedVersion(key)) continue;
+            state.libraryVersions[`${key} -> ${scope}`] ??= version;
+            delete state.libraryVersions[key];
+        }
+    });
 }
 
 export async function clearSyncState(): Promise<void> {
-    memoryState = {
-        processedKeys: [],
-    };
+    await update((state) => {
+        state.items = {};
+        state.libraryVersions = {};
+        delete state.lastSync;
+    });
 }
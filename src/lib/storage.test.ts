@@ -0,0 +1,49 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { readJsonFile, writeJsonFile } from '@/lib/storage';
+
+describe('writeJsonFile', () => {
+    let dir: string;
+    const previousDataDir = process.env.ZOTCRAFT_DATA_DIR;
+
+    before(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'zotcraft-storage-'));
+        process.env.ZOTCRAFT_DATA_DIR = dir;
+    });
+
+    after(() => {
+        process.env.ZOTCRAFT_DATA_DIR = previousDataDir;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('keeps the last of several writes to the same file', async () => {
+        await Promise.all(Array.from({ length: 20 }, (_, i) => writeJsonFile('runs/run.json', { write: i })));
+        assert.deepEqual(await readJsonFile('runs/run.json', null), { write: 19 });
+        assert.deepEqual(readdirSync(path.join(dir, 'runs')), ['run.json']);
+    });
+
+    test('saves the data as it was when the write was made', async () => {
+        const data = { count: 1 };
+        const write = writeJsonFile('snapshot.json', data);
+        data.count = 2;
+        await write;
+        assert.deepEqual(await readJsonFile('snapshot.json', null), { count: 1 });
+    });
+
+    test('carries on after a failed write, without leaving its temp file', async () => {
+        // A folder in the way makes the rename fail; it's removed before the next write runs
+        mkdirSync(path.join(dir, 'clash.json', 'inside'), { recursive: true });
+        const failed = writeJsonFile('clash.json', { write: 1 });
+        const cleared = failed.catch(() => rmSync(path.join(dir, 'clash.json'), { recursive: true }));
+        const next = writeJsonFile('clash.json', { write: 2 });
+
+        await assert.rejects(failed);
+        await cleared;
+        await next;
+        assert.deepEqual(await readJsonFile('clash.json', null), { write: 2 });
+        assert.equal(readdirSync(dir).some((name) => name.endsWith('.tmp')), false);
+    });
+});
@@ -0,0 +1,72 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Server-side JSON files live here. Override with ZOTCRAFT_DATA_DIR to keep
+// them on a persistent volume.
+export function getDataDir(): string {
+    return process.env.ZOTCRAFT_DATA_DIR || path.join(process.cwd(), '.zotcraft');
+}
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+    try {
+        const raw = await fs.readFile(path.join(getDataDir(), name), 'utf-8');
+        return JSON.parse(raw) as T;
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error(`Failed to read ${name}:`, error);
+        }
+        return fallback;
+    }
+}
+
+// Last modification time of a data file in ms, 0 if it doesn't exist
+export async function getFileModifiedTime(name: string): Promise<number> {
+    try {
+        return (await fs.stat(path.join(getDataDir(), name))).mtimeMs;
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        return 0;
+    }
+}
+
+// Pending write of each file, so writes land in the order they were made
+const writes = new Map<string, Promise<void>>();
+
+async function replaceFile(target: string, contents: string): Promise<void> {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated file behind
+    const temp = `${target}.${randomUUID()}.tmp`;
+    try {
+        await fs.writeFile(temp, contents, 'utf-8');
+        await fs.rename(temp, target);
+    } catch (error: unknown) {
+        await fs.rm(temp, { force: true });
+        throw error;
+    }
+}
+
+export function writeJsonFile(name: string, data: unknown): Promise<void> {
+    // Names may include a subfolder, e.g. "runs/<id>.json"
+    const target = path.join(getDataDir(), name);
+    const contents = JSON.stringify(data, null, 2);
+
+    // Each write waits for the previous one to the same file, whether or not it failed
+    const previous = writes.get(target) ?? Promise.resolve();
+    const write = previous.catch(() => {}).then(() => replaceFile(target, contents));
+    writes.set(target, write);
+    const forget = () => {
+        if (writes.get(target) === write) writes.delete(target);
+    };
+    write.then(forget, forget);
+    return write;
+}
+
+export async function deleteJsonFile(name: string): Promise<void> {
+    try {
+        await fs.unlink(path.join(getDataDir(), name));
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+}
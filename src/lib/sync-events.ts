@@ -0,0 +1,82 @@
+import { ItemEvent, SYNC_EVENT_VERSION, SyncErrorCategory, SyncEvent, SyncMessageEvent } from '@/types/sync';
+import { TemplateError } from '@/lib/template';
+
+// Status codes and texts the API clients put in their error messages
+const ERROR_PATTERNS: Array<[RegExp, SyncErrorCategory]> = [
+    [/\b(401|403)\b|Unauthorized|Forbidden/i, 'auth'],
+    [/\b404\b|Not Found|no longer exists/i, 'not-found'],
+    [/\b429\b|Too Many Requests/i, 'rate-limit'],
+    [/\b5\d\d\b|Internal Server Error|Bad Gateway|Service Unavailable|Gateway Timeout/i, 'server'],
+    [/fetch failed|timed out|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|EAI_AGAIN|network/i, 'network'],
+];
+
+const ITEM_LABELS: Record<ItemEvent['type'], string> = {
+    'item-created': 'created',
+    'item-updated': 'updated',
+    'item-skipped': 'skipped',
+    'item-failed': 'failed',
+};
+
+const DRY_RUN_ITEM_LABELS: Record<ItemEvent['type'], string> = {
+    'item-created': 'would-create',
+    'item-updated': 'would-update',
+    'item-skipped': 'would-skip',
+    'item-failed': 'failed',
+};
+
+/**
+ * Best guess at why an operation failed, from the error's type and message
+ */
+export function categorizeError(error: unknown): SyncErrorCategory {
+    if (error instanceof TemplateError) return 'config';
+    const message = error instanceof Error ? `${error.message} ${String((error as { cause?: unknown }).cause ?? '')}` : String(error);
+    return ERROR_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ?? 'unknown';
+}
+
+export function isItemEvent(event: SyncEvent): event is ItemEvent {
+    return event.type.startsWith('item-');
+}
+
+/**
+ * Short status of an item, e.g. "created", or "would-create" in a dry run
+ */
+export function itemLabel(type: ItemEvent['type'], dryRun?: boolean): string {
+    return (dryRun ? DRY_RUN_ITEM_LABELS : ITEM_LABELS)[type];
+}
+
+/**
+ * Short status shown next to an event in the Activity Log and the CLI output
+ */
+export function eventLabel(event: SyncEvent): string {
+    if (isItemEvent(event)) return itemLabel(event.type, event.dryRun);
+    if (event.type === 'run-started') return 'started';
+    if (event.type === 'run-finished') return event.outcome;
+    return event.type;
+}
+
+// "850ms", "12.3s" or "4m 05s"
+export function formatDuration(ms: number): string {
+    if (ms < 1000) return `${Math.round(ms)}ms`;
+    if (ms < 60 * 1000) return `${(ms / 1000).toFixed(1)}s`;
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * A run-level message stamped like the events of a run, for messages that come
+ * from outside the sync pipeline (e.g. a failed request in the browser)
+ */
+export function messageEvent(type: SyncMessageEvent['type'], message: string, errorCategory?: SyncErrorCategory): SyncMessageEvent {
+    return { type, v: SYNC_EVENT_VERSION, at: new Date().toISOString(), message, ...(errorCategory ? { errorCategory } : {}) };
+}
+
+/**
+ * Parses one line of the NDJSON event stream. Throws on events of another protocol version.
+ */
+export function parseSyncEvent(line: string): SyncEvent {
+    const event = JSON.parse(line) as SyncEvent;
+    if (event?.v !== SYNC_EVENT_VERSION) {
+        throw new Error(`Unsupported sync event version ${event?.v} (expected ${SYNC_EVENT_VERSION})`);
+    }
+    return event;
+}
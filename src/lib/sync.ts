@@ -0,0 +1,873 @@
+import { ZoteroClient } from '@/lib/zotero';
+import { createDestination, getSyncTarget } from '@/lib/destination';
+import { renderAnnotations, renderChildNotes } from '@/lib/annotations';
+import { buildMetadataHeader, DEFAULT_NOTE_TEMPLATES, renderNoteBody } from '@/lib/note-template';
+import { TemplateError, validateTemplate } from '@/lib/template';
+import { citationMarkdown, citationPlainText, DEFAULT_CITATION_SETTINGS, formatCitation, ZOTERO_CSL_STYLES } from '@/lib/citation';
+import { htmlToMarkdown } from '@/lib/html-to-markdown';
+import { CraftItemIndex } from '@/lib/craft-index';
+import { applyFieldMappings, DEFAULT_FIELD_MAPPINGS, getInitialOnlyKeys, SchemaMap, toPropertyValue } from '@/lib/mapping';
+import { getItemIdentity, IDENTITY_PROPERTIES, IdentityField } from '@/lib/identity';
+import { claimUnscopedState, getLibraryVersion, getSyncedItem, markAsProcessed, saveSyncState, setLibraryVersion, SyncStateError } from '@/lib/state';
+import { clearCheckpoint, getCheckpoint, RunCheckpoint, saveCheckpoint } from '@/lib/checkpoint';
+import { IncompleteItemError } from '@/lib/craft';
+import { parseImportFile } from '@/lib/file-import';
+import { categorizeError, formatDuration } from '@/lib/sync-events';
+import { HttpClient } from '@/lib/http';
+import { RunRecorder } from '@/lib/run-history';
+import { FieldMapping } from '@/types/mapping';
+import { NoteTemplates } from '@/types/template';
+import { CitationSettings, CitationStyle } from '@/types/citation';
+import { ZoteroChildContent, ZoteroCollection, ZoteroItem } from '@/types/zotero';
+import { Destination } from '@/types/destination';
+import { ImportFile } from '@/types/import';
+import { RunTrigger } from '@/types/history';
+import {
+    DEFAULT_SYNC_SETTINGS,
+    ItemEvent,
+    RunFinishedEvent,
+    SYNC_EVENT_VERSION,
+    SyncConfig,
+    SyncEvent,
+    SyncEventInput,
+    SyncSettings,
+    SyncSummary,
+} from '@/types/sync';
+
+export interface SyncOptions {
+    maxItems?: number;
+    backfill?: boolean; // Page through the entire collection instead of only recent changes
+    signal?: AbortSignal;
+    dryRun?: boolean; // Fetch, match and render everything, but write nothing to the destination or the sync state
+    itemKeys?: string[]; // Only sync these items (e.g. the ones approved in a dry run); others wait for the next run
+    files?: ImportFile[]; // Sync the entries of these reference files instead of fetching from Zotero
+    trigger?: RunTrigger; // Recorded in the run history; defaults to manual
+    runId?: string; // ID in the run history, e.g. the background job's; generated if unset
+    restart?: boolean; // Discard the checkpoint of an interrupted run instead of resuming it
+    anyFolder?: boolean; // Allow a markdown folder outside ZOTCRAFT_MARKDOWN_ROOT; only for the CLI
+}
+
+type Emit = (event: SyncEventInput) => void;
+
+// Summary field counted for each event type
+const SUMMARY_COUNTS: Partial<Record<SyncEvent['type'], keyof SyncSummary>> = {
+    'item-created': 'created',
+    'item-updated': 'updated',
+    'item-skipped': 'skipped',
+    'item-failed': 'failed',
+    'warning': 'warnings',
+    'error': 'errors',
+};
+
+// Items between checkpoint saves; an interrupted run re-checks at most this many finished items
+const CHECKPOINT_INTERVAL = 25;
+
+// Only one sync may write to a target at a time (see getSyncTarget). Kept on globalThis
+// so the lock is shared between route handlers and the scheduler even if Next.js loads
+// this module more than once.
+const globalForSync = globalThis as unknown as { zotcraftSyncTargets?: Set<string> };
+const runningTargets = (globalForSync.zotcraftSyncTargets ??= new Set<string>());
+
+// Whether a sync is writing to the config's target, or to any target without a config
+export function isSyncRunning(config?: SyncConfig): boolean {
+    return config ? runningTargets.has(getSyncTarget(config)) : runningTargets.size > 0;
+}
+
+// Names of the snapshot fields whose values differ (all of them if there is no previous snapshot)
+function diffFields(previous: Record<string, string> | undefined, current: Record<string, string>): string[] {
+    return Object.keys(current).filter((field) => previous?.[field] !== current[field]);
+}
+
+/**
+ * Zotero collections to read from: the selected one and, if enabled, all its descendants.
+ * `path` is the collection's "Parent / Child" name, unknown for an entire group library.
+ */
+async function resolveSources(
+    zoteroClient: ZoteroClient,
+    includeSubcollections: boolean,
+    emit: Emit
+): Promise<Array<{ client: ZoteroClient; path?: string }>> {
+    const rootKey = zoteroClient.getSelectedCollectionKey();
+    if (!rootKey) return [{ client: zoteroClient }];
+
+    let collections: ZoteroCollection[];
+    try {
+        collections = await zoteroClient.getLibraryCollections();
+    } catch (e: unknown) {
+        // Subcollections can't be found without the list; a plain sync can go ahead without the path
+        if (includeSubcollections) throw e;
+        emit({ type: 'warning', message: 'Failed to fetch Zotero collections, collection path will be missing' });
+        return [{ client: zoteroClient }];
+    }
+
+    return ZoteroClient.resolveCollectionPaths(collections, rootKey, includeSubcollections).map(({ key, path }) => ({
+        client: key === rootKey ? zoteroClient : zoteroClient.forCollection(key),
+        path,
+    }));
+}
+
+/**
+ * Parses uploaded reference files, reporting each entry that can't be read
+ */
+function readImportFiles(files: ImportFile[], emit: Emit): ZoteroItem[] {
+    const items: ZoteroItem[] = [];
+    for (const file of files) {
+        const result = parseImportFile(file);
+        if (!result) {
+            emit({ type: 'error', message: `${file.name}: Unrecognized file format (expected BibTeX, RIS or CSL-JSON)`, errorCategory: 'invalid-input' });
+            continue;
+        }
+
+        for (const error of result.errors) {
+            emit({ type: 'error', message: `${file.name} (${error.entry}): ${error.message}`, errorCategory: 'invalid-input' });
+        }
+        const failed = result.errors.length > 0 ? `, ${result.errors.length} could not be read` : '';
+        emit({ type: 'info', message: `Read ${result.items.length} entries from ${file.name} (${result.format})${failed}` });
+        items.push(...result.items);
+    }
+    return items;
+}
+
+/**
+ * Runs the Zotero -> Craft (or markdown folder) sync pipeline, reporting progress through `emit`.
+ * Shared by the streaming /api/sync-now route, the server-side scheduler and the CLI.
+ * Every run starts with a run-started event and ends with a run-finished event carrying the summary.
+ */
+export async function runSync(
+    config: SyncConfig,
+    options: SyncOptions,
+    emit: (event: SyncEvent) => void
+): Promise<RunFinishedEvent> {
+    const startedAt = Date.now();
+    const dryRun = options.dryRun ?? false;
+    const summary: SyncSummary = { created: 0, updated: 0, skipped: 0, failed: 0, warnings: 0, errors: 0 };
+    const recorder = new RunRecorder(options.trigger ?? 'manual', config, options.runId);
+    const send: Emit = (event) => {
+        const counted = SUMMARY_COUNTS[event.type];
+        if (counted) summary[counted]++;
+        const stamped = { v: SYNC_EVENT_VERSION, at: new Date().toISOString(), ...event } as SyncEvent;
+        recorder.handle(stamped);
+        emit(stamped);
+    };
+
+    send({ type: 'run-started', runId: recorder.id, dryRun, source: options.files ? 'file' : 'zotero' });
+
+    let completed = false;
+    const target = getSyncTarget(config);
+    if (runningTargets.has(target)) {
+        send({ type: 'error', message: 'Another sync is already writing to this destination', errorCategory: 'conflict' });
+    } else {
+        runningTargets.add(target);
+        try {
+            completed = await syncItems(config, { ...options, runId: recorder.id }, send);
+        } catch (e: unknown) {
+            console.error('Sync failed:', e);
+            const message = e instanceof Error ? e.message : String(e);
+            send({ type: 'error', message: `Sync failed: ${message}`, errorCategory: categorizeError(e) });
+        } finally {
+            // Records of a run that stopped early are still batched in memory (see state.ts)
+            await saveSyncState().catch((e: unknown) => {
+                completed = false;
+                send({ type: 'error', message: e instanceof Error ? e.message : String(e), errorCategory: categorizeError(e) });
+            });
+            runningTargets.delete(target);
+        }
+    }
+
+    const finished: RunFinishedEvent = {
+        type: 'run-finished',
+        v: SYNC_EVENT_VERSION,
+        at: new Date().toISOString(),
+        runId: recorder.id,
+        outcome: options.signal?.aborted ? 'aborted' : completed ? 'completed' : 'failed',
+        dryRun,
+        elapsedMs: Date.now() - startedAt,
+        summary,
+    };
+    // Saved before returning, so the CLI doesn't exit with the run half-recorded
+    await recorder.handle(finished);
+    emit(finished);
+    return finished;
+}
+
+/**
+ * The pipeline itself. Returns false if an error stopped it before all items were processed.
+ */
+async function syncItems(
+    config: SyncConfig,
+    options: SyncOptions,
+    emit: Emit
+): Promise<boolean> {
+    const { maxItems = 10, backfill = false, signal, dryRun = false, files } = options;
+    const approvedKeys = options.itemKeys ? new Set(options.itemKeys) : undefined;
+    const { zotero } = config;
+    const settings = { ...DEFAULT_SYNC_SETTINGS, ...config.sync };
+    const mappings = config.mapping || DEFAULT_FIELD_MAPPINGS;
+    const templates = config.templates || DEFAULT_NOTE_TEMPLATES;
+    const citation = { ...DEFAULT_CITATION_SETTINGS, ...config.citation };
+    if (files) {
+        // Zotero doesn't know imported items, so it can't format them
+        citation.source = 'local';
+    }
+
+    // A broken template would fail every item, so check them all before touching anything
+    for (const [itemType, template] of [['default', templates.default], ...Object.entries(templates.byItemType || {})]) {
+        try {
+            validateTemplate(template);
+        } catch (e: unknown) {
+            if (!(e instanceof TemplateError)) throw e;
+            emit({ type: 'error', message: `Invalid note template (${itemType}): ${e.message}`, errorCategory: 'config' });
+            return false;
+        }
+    }
+
+    // Retried requests are reported, so slowdowns from rate limits or a flaky server are visible
+    const http = new HttpClient({
+        onRetry: ({ method, url, reason, attempt, maxRetries, delayMs }) => emit({
+            type: 'warning',
+            message: `${method} ${new URL(url).host} failed (${reason}), retrying in ${formatDuration(delayMs)} (${attempt}/${maxRetries})`,
+            errorCategory: categorizeError(reason),
+        }),
+    });
+    const zoteroClient = new ZoteroClient(zotero, http);
+    let destination: Destination;
+    try {
+        destination = createDestination(config, http, options.anyFolder);
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        emit({ type: 'error', message, errorCategory: 'config' });
+        return false;
+    }
+    // Each target keeps its own sync records, so switching collections, documents or folders syncs
+    // everything again instead of updating items in the previous one
+    const stateKey = (itemKey: string) => `${destination.scope}|${itemKey}`;
+    await claimUnscopedState(destination.scope);
+
+    if (dryRun) {
+        emit({ type: 'info', message: `Dry run: nothing will be written to ${destination.label}` });
+    }
+
+    let importedItems: ZoteroItem[] | undefined;
+    if (files) {
+        emit({ type: 'info', message: `Reading ${files.length} file(s)...` });
+        importedItems = readImportFiles(files, emit);
+    } else {
+        emit({ type: 'info', message: 'Connecting to Zotero...' });
+    }
+
+    // 1. Fetch the destination's schema (Craft: the target collection's properties)
+    const schemaMap: SchemaMap = {}; // Name -> { name, key, type, options }
+    try {
+        const properties = await destination.getProperties();
+        properties.forEach((prop) => {
+            schemaMap[prop.name] = prop;
+        });
+    } catch (e: any) {
+        emit({ type: 'warning', message: `Failed to fetch schema: ${e.message}` });
+    }
+
+    // Property keys holding stable identifiers, used to find items the sync state doesn't know
+    const identityKeys: Partial<Record<IdentityField, string>> = {};
+    for (const [field, name] of Object.entries(IDENTITY_PROPERTIES) as Array<[IdentityField, string]>) {
+        if (schemaMap[name]) identityKeys[field] = schemaMap[name].key;
+    }
+    if (config.craft.targetCollectionId && !identityKeys.zoteroKey) {
+        emit({
+            type: 'warning',
+            message: `Add a '${IDENTITY_PROPERTIES.zoteroKey}' text property to the Craft collection for reliable duplicate detection. Until then, existing items are matched by title`,
+        });
+    }
+
+    // Index the destination once, so duplicate checks don't re-download it per item.
+    // Without it every check would be a guess, so the run stops rather than risk duplicates.
+    let craftIndex: CraftItemIndex | undefined;
+    try {
+        craftIndex = await CraftItemIndex.load(destination, identityKeys);
+        if (craftIndex) {
+            emit({ type: 'info', message: `Indexed ${craftIndex.size} existing ${destination.label} items` });
+        }
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        emit({
+            type: 'error',
+            message: `Failed to load existing ${destination.label} items for duplicate check: ${message}`,
+            errorCategory: categorizeError(e),
+        });
+        return false;
+    }
+
+    // 2. Fetch items changed since the last synced library version (or everything when backfilling)
+    // Subcollection syncs track their own version, so turning the option on picks up nested items
+    const scope = `${zoteroClient.getSyncScope()}${settings.includeSubcollections ? '+subcollections' : ''} -> ${destination.scope}`;
+    const since = await getLibraryVersion(scope);
+
+    // Runs that write their full item list are checkpointed (see checkpoint.ts). An interrupted one
+    // is resumed by the next run, unless that is a backfill and the interrupted run wasn't.
+    const checkpointing = !dryRun && !importedItems && !approvedKeys;
+    let resumed: RunCheckpoint | undefined;
+    if (checkpointing) {
+        const saved = await getCheckpoint(scope);
+        if (saved && (options.restart || (backfill && !saved.backfill))) {
+            await clearCheckpoint(scope);
+        } else {
+            resumed = saved;
+        }
+    }
+    let items: any[] = [];
+    // Item key -> path of the collection it was found in, e.g. "Thesis / Chapter 2"
+    const collectionPaths = new Map<string, string>();
+    // Library version to remember once this run is done; lowered below if items fail
+    let checkpoint = since;
+    // Version that brought each item into this run (its own, or that of a changed child)
+    const resumeVersions = new Map<string, number>();
+    const childChangedKeys = new Set<string>();
+    try {
+        const sources = importedItems || resumed ? [] : await resolveSources(zoteroClient, settings.includeSubcollections, emit);
+        if (sources.length > 1) {
+            emit({ type: 'info', message: `Including ${sources.length - 1} subcollections` });
+        }
+
+        // All sources share one library, so the lowest version seen is safe to resume from
+        let libraryVersion = Infinity;
+
+        if (importedItems) {
+            // Nothing to resume from: the checkpoint stays at `since`, so no library version is saved
+            items = importedItems;
+            emit({ type: 'info', message: `Importing ${items.length} items from file. Processing...` });
+        } else if (resumed) {
+            const done = new Set(resumed.done);
+            const remaining = resumed.itemKeys.filter((key) => !done.has(key));
+            emit({
+                type: 'info',
+                message: `Resuming the ${resumed.backfill ? 'backfill' : 'sync'} interrupted at ${done.size}/${resumed.itemKeys.length} items. Processing the remaining ${remaining.length}...`,
+            });
+
+            const order = new Map(remaining.map((key, i) => [key, i]));
+            items = await zoteroClient.getItemsByKey(remaining);
+            items.sort((a, b) => order.get(a.key)! - order.get(b.key)!);
+
+            for (const [key, path] of Object.entries(resumed.collectionPaths)) collectionPaths.set(key, path);
+            for (const [key, version] of Object.entries(resumed.resumeVersions)) resumeVersions.set(key, version);
+            for (const key of resumed.childChangedKeys) childChangedKeys.add(key);
+            checkpoint = resumed.libraryVersion;
+        } else if (backfill) {
+            emit({ type: 'info', message: 'Backfill: fetching the entire collection from Zotero...' });
+
+            const byKey = new Map<string, ZoteroItem>();
+            for (const source of sources) {
+                const result = await source.client.getAllCollectionItems((fetched, total) => {
+                    const prefix = source.path ? `${source.path}: f` : 'F';
+                    emit({ type: 'info', message: `${prefix}etched ${fetched}/${total} items`, progress: { done: fetched, total } });
+                });
+
+                libraryVersion = Math.min(libraryVersion, result.libraryVersion);
+                for (const item of result.items) {
+                    // An item filed in several subcollections is synced once, under the first one
+                    if (byKey.has(item.key)) continue;
+                    byKey.set(item.key, item);
+                    if (source.path) collectionPaths.set(item.key, source.path);
+                }
+            }
+
+            items = [...byKey.values()];
+            items.sort((a, b) => a.version - b.version);
+            checkpoint = Math.max(since, libraryVersion);
+
+            emit({ type: 'info', message: `Found ${items.length} items. Processing...` });
+        } else {
+            emit({ type: 'info', message: `Checking Zotero for changes since library version ${since}...` });
+
+            const versions = new Map<string, number>();
+            for (const source of sources) {
+                const result = await source.client.getChangedItemVersions(since);
+
+                libraryVersion = Math.min(libraryVersion, result.libraryVersion);
+                for (const [key, version] of Object.entries(result.versions)) {
+                    if (versions.has(key)) continue;
+                    versions.set(key, version);
+                    if (source.path) collectionPaths.set(key, source.path);
+                }
+            }
+
+            // New notes/highlights don't bump their parent's version; pull in synced parents whose children changed
+            if (settings.importChildren && since > 0) {
+                const childParents = await zoteroClient.getChangedChildParents(since);
+                for (const [key, version] of childParents) {
+                    if (!(await getSyncedItem(stateKey(key)))?.craftId) continue;
+                    childChangedKeys.add(key);
+                    versions.set(key, Math.min(versions.get(key) ?? Infinity, version));
+                }
+            }
+
+            // Oldest changes first, so a capped run can resume exactly where it stopped
+            const changed = [...versions.entries()].sort((a, b) => a[1] - b[1]);
+            const batch = changed.slice(0, maxItems);
+            checkpoint = changed.length > maxItems ? changed[maxItems][1] - 1 : libraryVersion;
+
+            items = await zoteroClient.getItemsByKey(batch.map(([key]) => key));
+            for (const [key, version] of batch) resumeVersions.set(key, version);
+            items.sort((a, b) => resumeVersions.get(a.key)! - resumeVersions.get(b.key)!);
+
+            const remaining = changed.length - batch.length;
+            emit({
+                type: 'info',
+                message: `Found ${changed.length} changed items${remaining > 0 ? ` (${remaining} left for the next run)` : ''}. Processing...`,
+            });
+        }
+
+    } catch (e: any) {
+        emit({ type: 'error', message: `Failed to fetch Zotero items: ${e.message}`, errorCategory: categorizeError(e) });
+        return false;
+    }
+
+    // New select options this run may still add
+    const optionBudget = { remaining: settings.maxNewOptions, warned: false };
+
+    // A resumed run continues the interrupted run's checkpoint and progress count
+    const progress: RunCheckpoint | undefined = !checkpointing || (items.length === 0 && !resumed) ? undefined : resumed
+        ? { ...resumed, inFlight: undefined }
+        : {
+            runId: options.runId!,
+            backfill,
+            startedAt: new Date().toISOString(),
+            updatedAt: '',
+            libraryVersion: checkpoint,
+            itemKeys: items.map((item) => item.key),
+            done: [],
+            collectionPaths: Object.fromEntries(collectionPaths),
+            resumeVersions: Object.fromEntries(resumeVersions),
+            childChangedKeys: [...childChangedKeys],
+        };
+    const progressBase = resumed?.done.length ?? 0;
+    if (progress) await saveCheckpoint(scope, progress);
+
+    for (const [index, item] of items.entries()) {
+        const itemStartedAt = Date.now();
+        // Item events carry the run's progress, e.g. 120/843
+        const emitItem = (event: Pick<ItemEvent, 'type' | 'title' | 'details' | 'craftId' | 'preview' | 'errorCategory'>) => emit({
+            ...event,
+            itemKey: item.key,
+            durationMs: Date.now() - itemStartedAt,
+            progress: { done: progressBase + index + 1, total: progressBase + items.length },
+            ...(dryRun ? { dryRun } : {}),
+        });
+
+        // Check for cancellation
+        if (signal?.aborted) {
+            console.log('Sync processing aborted.');
+            checkpoint = Math.min(checkpoint, (resumeVersions.get(item.key) ?? item.version) - 1);
+            break;
+        }
+
+        const itemTitle = item.data.title || 'Untitled';
+
+        if (approvedKeys && !approvedKeys.has(item.key)) {
+            emitItem({ type: 'item-skipped', title: itemTitle, details: 'Not approved, left for the next run' });
+            checkpoint = Math.min(checkpoint, (resumeVersions.get(item.key) ?? item.version) - 1);
+            continue;
+        }
+
+        let failed = false;
+        try {
+            // 3. Skip items the sync state already has at this version
+            const synced = await getSyncedItem(stateKey(item.key));
+            if (synced && synced.version >= item.version && !synced.incomplete && !childChangedKeys.has(item.key)) {
+                emitItem({ type: 'item-skipped', title: itemTitle, details: `Already synced (version ${item.version})`, craftId: synced.craftId });
+                continue;
+            }
+
+            // 4. Prepare content & properties, with notes and highlights not imported yet
+            let children: ZoteroChildContent | undefined;
+            if (settings.importChildren && !importedItems) {
+                const imported = new Set(synced?.childKeys || []);
+                const all = await zoteroClient.getChildContent(item.key);
+                children = {
+                    notes: all.notes.filter((note) => !imported.has(note.key)),
+                    annotations: all.annotations.filter((annotation) => !imported.has(annotation.key)),
+                };
+            }
+            const childKeys = [
+                ...(synced?.childKeys || []),
+                ...(children?.notes || []).map((note) => note.key),
+                ...(children?.annotations || []).map((annotation) => annotation.key),
+            ];
+
+            const citationText = await getCitation(zoteroClient, item, citation);
+            const extras: ItemExtras = {
+                collectionPath: collectionPaths.get(item.key),
+                children,
+                citation: citationText ? { text: citationText, style: citation.style } : undefined,
+            };
+            let content = buildItemContent(item, schemaMap, mappings, templates, extras);
+
+            // Grow allowed vocabularies (e.g. Tags) instead of dropping values the collection has no option for
+            if (settings.createMissingOptions && content.unmatched.length > 0) {
+                const added = await addMissingOptions(destination, content.unmatched, schemaMap, settings, optionBudget, dryRun, emit);
+                if (added) {
+                    content = buildItemContent(item, schemaMap, mappings, templates, extras);
+                }
+            }
+            for (const { property, values } of content.unmatched) {
+                // Skipped to prevent a 400 error from Craft
+                console.warn(`Skipping invalid option(s) '${values.join("', '")}' for field '${property}'. Valid options: ${schemaMap[property].options?.join(', ')}`);
+            }
+
+            // 5. Changed since the last sync: patch the existing item in place
+            if (synced?.craftId) {
+                // Created by an earlier run that failed to write the body: write it now
+                if (synced.incomplete) {
+                    await completeItem(destination, synced.craftId, content, synced.fields, getInitialOnlyKeys(mappings, schemaMap), dryRun, emitItem);
+                    if (!dryRun) {
+                        await markAsProcessed(stateKey(item.key), { version: item.version, craftId: synced.craftId, fields: content.fields, childKeys });
+                    }
+                    continue;
+                }
+
+                if (!settings.updateExisting) {
+                    emitItem({
+                        type: 'item-skipped',
+                        title: itemTitle,
+                        details: 'Changed in Zotero, but updating existing items is turned off',
+                        craftId: synced.craftId,
+                    });
+                    continue;
+                }
+
+                const changedFields = diffFields(synced.fields, content.fields);
+                // Constant mappings (e.g. Reading status) belong to the user once the item exists
+                const properties = { ...content.properties };
+                for (const key of getInitialOnlyKeys(mappings, schemaMap)) delete properties[key];
+
+                // New highlights and notes go to the end of their sections; existing text is left alone
+                const appended: Array<{ heading: string; markdown: string }> = [];
+                const changes = changedFields.length > 0
+                    ? [synced.fields ? `Changed: ${changedFields.join(', ')}` : 'Metadata refreshed']
+                    : [];
+                if (children && children.annotations.length > 0) {
+                    appended.push({ heading: 'Quotes', markdown: renderAnnotations(children.annotations) });
+                    changes.push(`added ${children.annotations.length} highlight(s)`);
+                }
+                if (children && children.notes.length > 0) {
+                    appended.push({ heading: 'Notes', markdown: renderChildNotes(children.notes) });
+                    changes.push(`added ${children.notes.length} note(s)`);
+                }
+
+                if (dryRun) {
+                    emitItem(changes.length > 0
+                        ? {
+                            type: 'item-updated',
+                            title: itemTitle,
+                            details: changes.join('; '),
+                            craftId: synced.craftId,
+                            preview: {
+                                properties: changedFields.length > 0 ? properties : {},
+                                header: changedFields.length > 0 ? content.header : undefined,
+                                markdownBody: appended.map(({ heading, markdown }) => `## ${heading}\n${markdown}`).join('\n\n') || undefined,
+                                craftId: synced.craftId,
+                            },
+                        }
+                        : { type: 'item-skipped', title: itemTitle, details: 'No metadata changes', craftId: synced.craftId });
+                    continue;
+                }
+
+                if (changedFields.length > 0) {
+                    await destination.updateItem(synced.craftId, content.title, properties);
+                    await destination.updateMetadataHeader(synced.craftId, content.header);
+                }
+                for (const { heading, markdown } of appended) {
+                    await destination.appendToSection(synced.craftId, heading, markdown);
+                }
+
+                await markAsProcessed(stateKey(item.key), {
+                    version: item.version,
+                    craftId: synced.craftId,
+                    fields: { ...synced.fields, ...content.fields },
+                    childKeys,
+                });
+
+                emitItem({
+                    type: changes.length > 0 ? 'item-updated' : 'item-skipped',
+                    title: itemTitle,
+                    details: changes.length > 0 ? changes.join('; ') : 'No metadata changes',
+                    craftId: synced.craftId,
+                });
+                continue;
+            }
+
+            // Not in the sync state: look for an existing item with the same identifier
+            const match = craftIndex?.find(getItemIdentity(item), itemTitle);
+            // The interrupted run stopped while creating this item, maybe before writing its body
+            if (match && item.key === resumed?.inFlight) {
+                await completeItem(destination, match.item.id, content, undefined, [], dryRun, emitItem);
+                await markAsProcessed(stateKey(item.key), { version: item.version, craftId: match.item.id, fields: content.fields, childKeys });
+                continue;
+            }
+            if (match) {
+                if (!dryRun) await markAsProcessed(stateKey(item.key), { version: item.version, craftId: match.item.id, fields: content.fields });
+                emitItem({
+                    type: 'item-skipped',
+                    title: itemTitle,
+                    details: `Already exists in ${destination.label} (matched by ${match.matchedBy === 'title' ? 'title' : IDENTITY_PROPERTIES[match.matchedBy]})`,
+                    craftId: match.item.id,
+                });
+                continue;
+            }
+
+            // 6. Create in the destination
+            const { properties, markdownBody, tags } = content;
+            if (dryRun) {
+                // Indexed under a placeholder so a later duplicate in this run is reported as one
+                craftIndex?.add({ id: `dry-run:${item.key}`, title: itemTitle, properties });
+                emitItem({ type: 'item-created', title: itemTitle, preview: { properties, markdownBody } });
+                continue;
+            }
+
+            if (progress) {
+                progress.inFlight = item.key;
+                // Items the checkpoint lists as done must be in the sync state on disk
+                await saveSyncState();
+                await saveCheckpoint(scope, progress);
+            }
+
+            let craftId: string;
+            try {
+                craftId = await destination.createItem({
+                    title: itemTitle,
+                    properties,
+                    markdownBody,
+                    tags,
+                    citationKey: getItemIdentity(item).citationKey,
+                });
+            } catch (e: unknown) {
+                if (!(e instanceof IncompleteItemError)) throw e;
+                // Recorded with its ID, so the next run writes the body instead of creating a duplicate
+                craftIndex?.add({ id: e.itemId, title: itemTitle, properties });
+                await markAsProcessed(stateKey(item.key), { version: item.version, craftId: e.itemId, fields: content.fields, incomplete: true });
+                throw e;
+            }
+
+            craftIndex?.add({ id: craftId, title: itemTitle, properties });
+
+            // 7. Record in sync state so the next run treats it as done
+            await markAsProcessed(stateKey(item.key), { version: item.version, craftId, fields: content.fields, childKeys });
+
+            emitItem({ type: 'item-created', title: itemTitle, craftId });
+        } catch (err: any) {
+            // Nothing synced from here on could be recorded: stop instead of creating duplicates next run
+            if (err instanceof SyncStateError) throw err;
+            failed = true;
+            console.error(`Error processing item ${itemTitle}:`, err);
+            emitItem({ type: 'item-failed', title: itemTitle, details: err.message, errorCategory: categorizeError(err) });
+            // Keep the failed item inside the next run's `since` window
+            checkpoint = Math.min(checkpoint, (resumeVersions.get(item.key) ?? item.version) - 1);
+        } finally {
+            // Failed items stay out of `done`, so resuming tries them again
+            if (progress) {
+                if (!failed) progress.done.push(item.key);
+                progress.inFlight = undefined;
+                if ((index + 1) % CHECKPOINT_INTERVAL === 0) {
+                    await saveSyncState();
+                    await saveCheckpoint(scope, progress);
+                }
+            }
+        }
+    }
+
+    // A cancelled run keeps its checkpoint for the next run to resume; a finished one is done with it
+    if (progress) {
+        await saveSyncState();
+        await (signal?.aborted ? saveCheckpoint(scope, progress) : clearCheckpoint(scope));
+    }
+    if (checkpoint > since && !dryRun) {
+        await setLibraryVersion(scope, checkpoint);
+    }
+    await saveSyncState();
+    return true;
+}
+
+/**
+ * Writes the body of an item whose creation stopped before it, and its properties if the
+ * item has changed since. Reports the item as updated, or skipped if it had a body after all.
+ */
+async function completeItem(
+    destination: Destination,
+    id: string,
+    content: ItemContent,
+    previousFields: Record<string, string> | undefined,
+    initialOnlyKeys: string[],
+    dryRun: boolean,
+    emitItem: (event: Pick<ItemEvent, 'type' | 'title' | 'details' | 'craftId' | 'preview'>) => void
+): Promise<void> {
+    const changedFields = previousFields ? diffFields(previousFields, content.fields) : [];
+    const properties = { ...content.properties };
+    for (const key of initialOnlyKeys) delete properties[key];
+
+    if (dryRun) {
+        emitItem({
+            type: 'item-updated',
+            title: content.title,
+            details: 'Content missing since it was created',
+            craftId: id,
+            preview: { properties: changedFields.length > 0 ? properties : {}, markdownBody: content.markdownBody, craftId: id },
+        });
+        return;
+    }
+
+    if (changedFields.length > 0) {
+        await destination.updateItem(id, content.title, properties);
+    }
+    const repaired = await destination.repairBody(id, content.markdownBody);
+    emitItem(repaired
+        ? { type: 'item-updated', title: content.title, details: 'Added the content missing since it was created', craftId: id }
+        : { type: 'item-skipped', title: content.title, details: 'Already has its content', craftId: id });
+}
+
+/**
+ * The item's reference in the configured style, from Zotero if so configured.
+ * Falls back to the local formatter when Zotero has no rendering for it.
+ */
+async function getCitation(zoteroClient: ZoteroClient, item: ZoteroItem, settings: CitationSettings): Promise<string> {
+    if (settings.style === 'none') return '';
+
+    const cslStyle = settings.style === 'bibtex' ? 'bibtex' : ZOTERO_CSL_STYLES[settings.style];
+    if (settings.source === 'zotero' && cslStyle) {
+        try {
+            const citation = await zoteroClient.getFormattedCitation(item.key, cslStyle);
+            return settings.style === 'bibtex' ? citation : htmlToMarkdown(citation);
+        } catch (e: unknown) {
+            console.warn(`Falling back to the built-in ${settings.style} formatter for ${item.key}:`, e);
+        }
+    }
+    return formatCitation(item, settings.style);
+}
+
+/**
+ * Adds unmatched values as options of the allowed select properties, up to the run's
+ * budget, and updates `schemaMap` to match. A dry run only updates `schemaMap`.
+ * Returns whether any option was added.
+ */
+async function addMissingOptions(
+    destination: Destination,
+    unmatched: Array<{ property: string; values: string[] }>,
+    schemaMap: SchemaMap,
+    settings: SyncSettings,
+    budget: { remaining: number; warned: boolean },
+    dryRun: boolean,
+    emit: Emit
+): Promise<boolean> {
+    const allowed = new Set(settings.optionProperties.map((name) => name.toLowerCase()));
+    let added = false;
+
+    for (const { property: name, values } of unmatched) {
+        const property = schemaMap[name];
+        if (!property || !allowed.has(name.toLowerCase())) continue;
+
+        // Hashtag-transformed values become plain option names
+        const candidates = [...new Set(values.map((value) => value.replace(/^#/, '').trim()).filter(Boolean))];
+        const options = candidates.slice(0, budget.remaining);
+        if (options.length < candidates.length && !budget.warned) {
+            budget.warned = true;
+            emit({
+                type: 'warning',
+                message: `Reached the limit of ${settings.maxNewOptions} new select options for this run; other values are skipped`,
+            });
+        }
+        if (options.length === 0) continue;
+
+        try {
+            property.options = dryRun
+                ? [...(property.options || []), ...options]
+                : await destination.addSelectOptions(property.key, options);
+        } catch (e: unknown) {
+            // Don't retry for every item once the schema can't be written
+            budget.remaining = 0;
+            const message = e instanceof Error ? e.message : String(e);
+            emit({ type: 'warning', message: `Failed to add options to '${name}': ${message}` });
+            continue;
+        }
+
+        budget.remaining -= options.length;
+        added = true;
+        emit({
+            type: 'info',
+            message: `${dryRun ? 'Would add' : 'Added'} option(s) '${options.join("', '")}' to '${name}'`,
+        });
+    }
+
+    return added;
+}
+
+// Per-item inputs gathered by the sync run
+interface ItemExtras {
+    collectionPath?: string;
+    children?: ZoteroChildContent;
+    citation?: { text: string; style: CitationStyle };
+}
+
+interface ItemContent {
+    title: string;
+    properties: Record<string, unknown>;
+    markdownBody: string;
+    tags: string[];
+    header: Record<string, string>;
+    fields: Record<string, string>; // Snapshot compared between runs to report what changed
+    unmatched: Array<{ property: string; values: string[] }>; // Values left out for lack of a select option
+}
+
+/**
+ * Builds the Craft properties and note body for a Zotero item
+ */
+function buildItemContent(
+    item: ZoteroItem,
+    schemaMap: SchemaMap,
+    mappings: FieldMapping[],
+    templates: NoteTemplates,
+    extras: ItemExtras
+): ItemContent {
+    const { collectionPath, children, citation } = extras;
+    const itemTitle = item.data.title || 'Untitled';
+
+    // Map properties to Craft schema keys, as configured (defaults match the ZotCraft template)
+    const identity = getItemIdentity(item);
+    const { properties, unmatched } = applyFieldMappings(item, mappings, schemaMap, {
+        collectionPath,
+        citationKey: identity.citationKey,
+        citation: citation ? citationPlainText(citation.text) : undefined,
+    });
+
+    // Stable identifiers for duplicate detection, always written when the collection has them
+    for (const [field, name] of Object.entries(IDENTITY_PROPERTIES) as Array<[IdentityField, string]>) {
+        const property = schemaMap[name];
+        const value = identity[field];
+        if (property && value) {
+            properties[property.key] = toPropertyValue(property, value).value;
+        }
+    }
+
+    const header = buildMetadataHeader(item, collectionPath);
+    const tags = header['Tags'] ? header['Tags'].split(' ') : [];
+    const markdownBody = renderNoteBody(item, templates, {
+        collectionPath,
+        children,
+        citation: citation ? citationMarkdown(citation.text, citation.style) : undefined,
+    });
+
+    // Mapped properties join the snapshot, so edits to any mapped field count as a change
+    const propertyFields: Record<string, string> = {};
+    for (const property of Object.values(schemaMap)) {
+        if (property.key in properties) {
+            const value = properties[property.key];
+            propertyFields[property.name] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+    }
+
+    return {
+        title: itemTitle,
+        properties,
+        markdownBody,
+        tags,
+        header,
+        fields: { 'Title': itemTitle, ...header, ...propertyFields },
+        unmatched,
+    };
+}
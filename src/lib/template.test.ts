@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderTemplate, TemplateError, validateTemplate } from '@/lib/template';
+import { renderNoteBody, SAMPLE_ZOTERO_ITEM, selectTemplate } from '@/lib/note-template';
+
+describe('renderTemplate', () => {
+    test('renders values, joining lists and nested paths', () => {
+        const context = { title: 'A study', tags: ['one', 'two'], journal: { name: 'Nature' } };
+        assert.equal(renderTemplate('{{title}} ({{tags}}) in {{journal.name}}{{missing}}', context), 'A study (one, two) in Nature');
+    });
+
+    test('picks the {{else}} branch of if, unless and each', () => {
+        const template = '{{#if doi}}DOI{{else}}no DOI{{/if}} {{#unless doi}}missing{{else}}present{{/unless}} {{#each tags}}{{this}}{{else}}untagged{{/each}}';
+        assert.equal(renderTemplate(template, { doi: '', tags: [] }), 'no DOI missing untagged');
+        assert.equal(renderTemplate(template, { doi: '10.1/x', tags: ['a'] }), 'DOI present a');
+    });
+
+    test('nests blocks, with the loop item and loop variables in scope', () => {
+        const template = '{{#each creators}}{{#if @first}}{{else}}; {{/if}}{{name}}{{#if editor}} (ed.){{/if}} of {{title}}{{/each}}';
+        const context = {
+            title: 'A study',
+            creators: [{ name: 'Doe' }, { name: 'Roe', editor: true }],
+        };
+        assert.equal(renderTemplate(template, context), 'Doe of A study; Roe (ed.) of A study');
+    });
+
+    test('removes the lines of standalone block tags', () => {
+        const template = [
+            '# {{title}}',
+            '  {{#if abstract}}',
+            '{{abstract}}',
+            '  {{/if}}',
+            '{{#each tags}}',
+            '- {{this}}',
+            '{{/each}}',
+            'End',
+        ].join('\n');
+        assert.equal(renderTemplate(template, { title: 'A study', abstract: 'Short.', tags: ['a', 'b'] }), '# A study\nShort.\n- a\n- b\nEnd');
+        assert.equal(renderTemplate(template, { title: 'A study', tags: [] }), '# A study\nEnd');
+    });
+
+    test('keeps the line of a block tag that shares it with text', () => {
+        assert.equal(renderTemplate('Tags: {{#each tags}}#{{this}} {{/each}}\nEnd', { tags: ['a'] }), 'Tags: #a \nEnd');
+    });
+});
+
+describe('validateTemplate', () => {
+    test('accepts a well-formed template', () => {
+        assert.doesNotThrow(() => validateTemplate('{{#if a}}{{#each b}}{{this}}{{/each}}{{else}}-{{/if}}'));
+    });
+
+    test('reports an unclosed block with the line it was opened on', () => {
+        assert.throws(() => validateTemplate('Title\n{{#if abstract}}\n{{abstract}}'), {
+            name: 'TemplateError',
+            message: 'Missing {{/if}} for the block opened on line 2',
+        });
+    });
+
+    test('reports a closing tag that does not match its block', () => {
+        assert.throws(() => validateTemplate('{{#each tags}}\n{{this}}\n{{/if}}'), {
+            name: 'TemplateError',
+            message: 'Unexpected {{/if}} on line 3',
+        });
+    });
+
+    test('reports a stray {{else}} and unknown blocks', () => {
+        assert.throws(() => validateTemplate('{{else}}'), TemplateError);
+        assert.throws(() => validateTemplate('{{#if a}}{{else}}{{else}}{{/if}}'), TemplateError);
+        assert.throws(() => validateTemplate('{{#with a}}{{/with}}'), /Unknown block \{\{#with a\}\} on line 1/);
+    });
+});
+
+describe('renderNoteBody', () => {
+    test('uses the template for the item type, falling back to the default', () => {
+        const templates = { default: 'Default: {{title}}', byItemType: { journalArticle: 'Article: {{journal}}', book: '  ' } };
+        assert.equal(renderNoteBody(SAMPLE_ZOTERO_ITEM, templates), `Article: ${SAMPLE_ZOTERO_ITEM.data.publicationTitle}`);
+        assert.equal(selectTemplate(templates, 'book'), 'Default: {{title}}');
+    });
+});
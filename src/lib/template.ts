@@ -0,0 +1,197 @@
+// A small Handlebars-style template engine for note bodies.
+//
+//   {{title}}                          value (lists are joined with ", ")
+//   {{#if journal}}...{{else}}...{{/if}} conditional; {{#unless}} is the negation
+//   {{#each creators}}{{name}}{{/each}}  loop; inside, {{this}}, {{@index}}, {{@first}}, {{@last}}
+//
+// A block tag alone on its line removes the whole line, so templates can put
+// {{#if}} / {{/if}} on their own lines without leaving blank lines behind.
+
+export class TemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateError';
+    }
+}
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'var'; path: string }
+    | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type Token =
+    | { type: 'text'; value: string }
+    | { type: 'tag'; value: string; line: number };
+
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+function isBlockTag(tag: string): boolean {
+    return /^(#|\/|else$)/.test(tag);
+}
+
+function lineAt(source: string, index: number): number {
+    return source.slice(0, index).split('\n').length;
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let last = 0;
+    let match: RegExpExecArray | null;
+
+    TAG_PATTERN.lastIndex = 0;
+    while ((match = TAG_PATTERN.exec(source))) {
+        let start = match.index;
+        let end = start + match[0].length;
+        const tag = match[1];
+
+        if (isBlockTag(tag)) {
+            // Standalone block tag: swallow its indentation and line break
+            const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+            const newline = source.indexOf('\n', end);
+            const lineEnd = newline === -1 ? source.length : newline;
+            if (lineStart >= last && !source.slice(lineStart, start).trim() && !source.slice(end, lineEnd).trim()) {
+                start = lineStart;
+                end = newline === -1 ? source.length : newline + 1;
+            }
+        }
+
+        if (start > last) tokens.push({ type: 'text', value: source.slice(last, start) });
+        tokens.push({ type: 'tag', value: tag, line: lineAt(source, match.index) });
+        last = end;
+    }
+
+    if (last < source.length) tokens.push({ type: 'text', value: source.slice(last) });
+    return tokens;
+}
+
+function parse(tokens: Token[]): TemplateNode[] {
+    let position = 0;
+
+    // Parses until the closing tag of `block` (or the end, at the top level)
+    const parseNodes = (block?: { name: string; line: number }): { nodes: TemplateNode[]; otherwise: TemplateNode[] } => {
+        const nodes: TemplateNode[] = [];
+        let otherwise: TemplateNode[] | null = null;
+        const current = () => otherwise ?? nodes;
+
+        while (position < tokens.length) {
+            const token = tokens[position++];
+            if (token.type === 'text') {
+                current().push({ type: 'text', value: token.value });
+                continue;
+            }
+
+            const tag = token.value;
+            const open = tag.match(/^#(if|unless|each)\s+(\S+)$/);
+
+            if (open) {
+                const [, name, path] = open;
+                const inner = parseNodes({ name, line: token.line });
+                current().push(
+                    name === 'each'
+                        ? { type: 'each', path, body: inner.nodes, otherwise: inner.otherwise }
+                        : { type: 'if', path, negate: name === 'unless', then: inner.nodes, otherwise: inner.otherwise }
+                );
+            } else if (tag === 'else') {
+                if (!block || otherwise) throw new TemplateError(`Unexpected {{else}} on line ${token.line}`);
+                otherwise = [];
+            } else if (tag.startsWith('/')) {
+                const name = tag.slice(1).trim();
+                if (!block || block.name !== name) {
+                    throw new TemplateError(`Unexpected {{/${name}}} on line ${token.line}`);
+                }
+                return { nodes, otherwise: otherwise || [] };
+            } else if (tag.startsWith('#')) {
+                throw new TemplateError(`Unknown block {{${tag}}} on line ${token.line}`);
+            } else {
+                current().push({ type: 'var', path: tag });
+            }
+        }
+
+        if (block) throw new TemplateError(`Missing {{/${block.name}}} for the block opened on line ${block.line}`);
+        return { nodes, otherwise: otherwise || [] };
+    };
+
+    return parseNodes().nodes;
+}
+
+type Scope = { value: unknown; index?: number; count?: number };
+
+function resolve(path: string, scopes: Scope[]): unknown {
+    const scope = scopes[scopes.length - 1];
+    if (path === 'this' || path === '.') return scope.value;
+    if (path === '@index') return scope.index;
+    if (path === '@first') return scope.index === 0;
+    if (path === '@last') return scope.index !== undefined && scope.index === (scope.count || 0) - 1;
+
+    const [head, ...rest] = path.replace(/^this\./, '').split('.');
+
+    // Innermost scope that has the first segment wins
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        const value = scopes[i].value;
+        if (value && typeof value === 'object' && head in value) {
+            return rest.reduce<unknown>(
+                (acc, key) => (acc && typeof acc === 'object' ? (acc as Record<string, unknown>)[key] : undefined),
+                (value as Record<string, unknown>)[head]
+            );
+        }
+    }
+    return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    return !!value;
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(stringify).filter(Boolean).join(', ');
+    if (typeof value === 'object') return '';
+    return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[]): string {
+    let output = '';
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.value;
+                break;
+            case 'var':
+                output += stringify(resolve(node.path, scopes));
+                break;
+            case 'if': {
+                const truthy = isTruthy(resolve(node.path, scopes)) !== node.negate;
+                output += renderNodes(truthy ? node.then : node.otherwise, scopes);
+                break;
+            }
+            case 'each': {
+                const list = resolve(node.path, scopes);
+                if (!Array.isArray(list) || list.length === 0) {
+                    output += renderNodes(node.otherwise, scopes);
+                    break;
+                }
+                list.forEach((value, index) => {
+                    output += renderNodes(node.body, [...scopes, { value, index, count: list.length }]);
+                });
+                break;
+            }
+        }
+    }
+    return output;
+}
+
+/**
+ * Checks a template for syntax errors without rendering it
+ */
+export function validateTemplate(template: string): void {
+    parse(tokenize(template));
+}
+
+/**
+ * Renders a template against a context object. Throws TemplateError on syntax errors.
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+    return renderNodes(parse(tokenize(template)), [{ value: context }]);
+}
@@ -0,0 +1,195 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { WebSocket, WebSocketServer } from 'ws';
+import { SyncScheduler } from '@/lib/scheduler';
+import { ZoteroStreamListener } from '@/lib/zotero-stream';
+import { SyncConfig } from '@/types/sync';
+
+/**
+ * A stand-in for stream.zotero.org: greets each connection with a short retry delay and
+ * confirms subscriptions, refusing the key "BAD"
+ */
+class FakeZoteroStream {
+    readonly server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    readonly subscriptions: unknown[] = [];
+    private clients: WebSocket[] = [];
+    private waiting: Array<() => void> = [];
+
+    constructor() {
+        this.server.on('connection', (socket) => {
+            this.clients.push(socket);
+            socket.send(JSON.stringify({ event: 'connected', retry: 20 }));
+            socket.on('message', (data) => {
+                const message = JSON.parse(data.toString());
+                if (message.action !== 'createSubscriptions') return;
+                this.subscriptions.push(message.subscriptions);
+                const [{ apiKey, topics }] = message.subscriptions;
+                socket.send(JSON.stringify(apiKey === 'BAD'
+                    ? { event: 'subscriptionsCreated', subscriptions: [], errors: [{ apiKey, error: 'Invalid key' }] }
+                    : { event: 'subscriptionsCreated', subscriptions: [{ apiKey, topics }], errors: [] }));
+                this.waiting.splice(0).forEach((resolve) => resolve());
+            });
+        });
+    }
+
+    listening(): Promise<void> {
+        return new Promise((resolve) => this.server.once('listening', () => resolve()));
+    }
+
+    get url(): string {
+        return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    // Resolves once the given number of subscription requests has arrived
+    async subscribed(count: number): Promise<void> {
+        while (this.subscriptions.length < count) {
+            await new Promise<void>((resolve) => this.waiting.push(resolve));
+        }
+        // Let the confirmation reach the client
+        await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    send(message: unknown) {
+        this.clients.forEach((socket) => socket.send(JSON.stringify(message)));
+    }
+
+    dropConnections() {
+        this.clients.splice(0).forEach((socket) => socket.terminate());
+    }
+
+    close(): Promise<void> {
+        this.dropConnections();
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('ZoteroStreamListener', () => {
+    let stream: FakeZoteroStream;
+
+    before(async () => {
+        stream = new FakeZoteroStream();
+        await stream.listening();
+    });
+
+    after(() => stream.close());
+
+    test('subscribes, reports updates and catches up once after a reconnect', async () => {
+        const updates: Array<[string, number | undefined]> = [];
+        const listener = new ZoteroStreamListener({
+            url: stream.url,
+            apiKey: 'KEY',
+            topic: '/users/123',
+            onTopicUpdated: (topic, version) => updates.push([topic, version]),
+        });
+
+        try {
+            listener.start();
+            await stream.subscribed(1);
+            assert.deepEqual(stream.subscriptions[0], [{ apiKey: 'KEY', topics: ['/users/123'] }]);
+            assert.equal(listener.getStatus().state, 'connected');
+            assert.deepEqual(updates, [], 'the first subscription has nothing to catch up on');
+
+            stream.send({ event: 'topicUpdated', topic: '/groups/9', version: 5 });
+            stream.send({ event: 'topicUpdated', topic: '/users/123', version: 7 });
+            await wait(50);
+            assert.deepEqual(updates, [['/users/123', 7]]);
+            assert.ok(listener.getStatus().lastEventAt);
+
+            stream.dropConnections();
+            await wait(5);
+            assert.equal(listener.getStatus().state, 'reconnecting');
+
+            await stream.subscribed(2);
+            assert.equal(listener.getStatus().state, 'connected');
+            assert.deepEqual(updates, [['/users/123', 7], ['/users/123', undefined]]);
+        } finally {
+            listener.stop();
+        }
+    });
+
+    test('gives up when the subscription is refused', async () => {
+        const listener = new ZoteroStreamListener({ url: stream.url, apiKey: 'BAD', topic: '/users/123', onTopicUpdated: () => {} });
+        try {
+            const count = stream.subscriptions.length;
+            listener.start();
+            await stream.subscribed(count + 1);
+            assert.deepEqual(listener.getStatus(), { topic: '/users/123', state: 'unavailable', details: 'Invalid key', lastEventAt: undefined });
+
+            await wait(100);
+            assert.equal(stream.subscriptions.length, count + 1, 'no reconnect after a refusal');
+        } finally {
+            listener.stop();
+        }
+    });
+});
+
+describe('SyncScheduler push sync', () => {
+    let stream: FakeZoteroStream;
+    let dataDir: string;
+    const started: string[] = []; // Triggers of the jobs the scheduler started
+    const globals = globalThis as unknown as { zotcraftJobs?: unknown };
+
+    before(async () => {
+        stream = new FakeZoteroStream();
+        await stream.listening();
+        process.env.ZOTERO_STREAM_URL = stream.url;
+        dataDir = mkdtempSync(path.join(os.tmpdir(), 'zotcraft-push-'));
+        process.env.ZOTCRAFT_DATA_DIR = dataDir;
+
+        // Stands in for the job manager, so no sync actually runs
+        globals.zotcraftJobs = {
+            start: (_config: SyncConfig, _options: unknown, trigger: string) => {
+                started.push(trigger);
+                const summary = { created: 0, updated: 0, skipped: 0, failed: 0, warnings: 0, errors: 0 };
+                return { subscribe: () => {}, done: Promise.resolve({ summary }) };
+            },
+        };
+    });
+
+    after(async () => {
+        delete globals.zotcraftJobs;
+        delete process.env.ZOTERO_STREAM_URL;
+        delete process.env.ZOTCRAFT_DATA_DIR;
+        rmSync(dataDir, { recursive: true, force: true });
+        await stream.close();
+    });
+
+    test('syncs once per burst of changes, and once after reconnecting', async () => {
+        const scheduler = new SyncScheduler(100);
+        const config = {
+            zotero: { userId: '123', apiKey: 'KEY', collectionId: '', source: 'web' },
+            craft: { linkId: 'LINK', parentDocumentId: 'DOC' },
+        } as SyncConfig;
+
+        try {
+            await scheduler.update({ enabled: true, intervalMinutes: 60, push: true }, config);
+            await stream.subscribed(1);
+            assert.deepEqual(stream.subscriptions[0], [{ apiKey: 'KEY', topics: ['/users/123'] }]);
+            assert.equal(scheduler.getStatus().push?.state, 'connected');
+
+            stream.send({ event: 'topicUpdated', topic: '/users/123', version: 1 });
+            await wait(50);
+            stream.send({ event: 'topicUpdated', topic: '/users/123', version: 2 });
+            await wait(50);
+            assert.deepEqual(started, [], 'waits for the changes to settle');
+            await wait(150);
+            assert.deepEqual(started, ['push']);
+
+            stream.dropConnections();
+            await stream.subscribed(2);
+            await wait(150);
+            assert.deepEqual(started, ['push', 'push']);
+        } finally {
+            await scheduler.update({ enabled: false, intervalMinutes: 60 });
+        }
+    });
+});
+
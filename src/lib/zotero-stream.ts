@@ -0,0 +1,167 @@
+import WebSocket from 'ws';
+import { PushStatus } from '@/types/sync';
+
+// Zotero's streaming API: https://www.zotero.org/support/dev/web_api/v3/streaming_api
+export const ZOTERO_STREAM_URL = 'wss://stream.zotero.org';
+
+const DEFAULT_RETRY_MS = 10 * 1000; // Until the server suggests its own delay
+const MAX_RETRY_MS = 10 * 60 * 1000;
+
+interface StreamMessage {
+    event?: string;
+    retry?: number; // Suggested reconnect delay, sent with "connected"
+    topic?: string;
+    version?: number;
+    errors?: Array<{ apiKey?: string; topic?: string; error?: string }>;
+}
+
+export interface StreamListenerOptions {
+    url?: string; // Defaults to ZOTERO_STREAM_URL; point at a stand-in server for testing
+    apiKey: string;
+    topic: string; // e.g. "/users/123"
+    onTopicUpdated: (topic: string, version?: number) => void;
+}
+
+/**
+ * Listens for changes to one Zotero library over the streaming API and reports each
+ * `topicUpdated` event. Reconnects with exponential backoff when the connection drops, and
+ * reports one update after resubscribing, since changes made meanwhile weren't announced.
+ * Gives up only when the subscription itself is refused (bad key, no access).
+ */
+export class ZoteroStreamListener {
+    private socket: WebSocket | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private retryBase = DEFAULT_RETRY_MS;
+    private attempts = 0;
+    private stopped = true;
+    private subscribedBefore = false; // Set once the first subscription succeeds
+    private status: PushStatus;
+
+    constructor(private options: StreamListenerOptions) {
+        this.status = { state: 'connecting', topic: options.topic };
+    }
+
+    get url(): string {
+        return this.options.url || ZOTERO_STREAM_URL;
+    }
+
+    // Whether this listener already serves the given subscription
+    matches(options: Omit<StreamListenerOptions, 'onTopicUpdated'>): boolean {
+        return this.options.apiKey === options.apiKey
+            && this.options.topic === options.topic
+            && this.url === (options.url || ZOTERO_STREAM_URL);
+    }
+
+    getStatus(): PushStatus {
+        return this.status;
+    }
+
+    start(): void {
+        if (!this.stopped) return;
+        this.stopped = false;
+        this.connect();
+    }
+
+    stop(): void {
+        this.stopped = true;
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        if (this.socket) {
+            this.socket.removeAllListeners();
+            // An error after stopping has nowhere to go
+            this.socket.on('error', () => {});
+            this.socket.terminate();
+            this.socket = null;
+        }
+    }
+
+    private setStatus(status: Omit<PushStatus, 'topic' | 'lastEventAt'>) {
+        this.status = { topic: this.options.topic, lastEventAt: this.status.lastEventAt, ...status };
+    }
+
+    private connect() {
+        this.setStatus({ state: this.attempts === 0 ? 'connecting' : 'reconnecting', details: this.status.details });
+
+        const socket = new WebSocket(this.url);
+        this.socket = socket;
+        let lastError: string | undefined;
+
+        socket.on('message', (data) => this.handleMessage(socket, data.toString()));
+        socket.on('error', (error) => {
+            lastError = error.message;
+        });
+        socket.on('close', (code) => {
+            if (this.socket !== socket) return;
+            this.socket = null;
+            if (!this.stopped) this.scheduleReconnect(lastError || `Connection closed (${code})`);
+        });
+    }
+
+    private handleMessage(socket: WebSocket, raw: string) {
+        let message: StreamMessage;
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            console.warn('Ignoring malformed Zotero stream message:', raw);
+            return;
+        }
+
+        switch (message.event) {
+            case 'connected':
+                if (message.retry) this.retryBase = message.retry;
+                socket.send(JSON.stringify({
+                    action: 'createSubscriptions',
+                    subscriptions: [{ apiKey: this.options.apiKey, topics: [this.options.topic] }],
+                }));
+                break;
+
+            case 'subscriptionsCreated':
+                if (message.errors && message.errors.length > 0) {
+                    // Retrying won't fix a refused key or topic
+                    const error = message.errors[0].error || 'Subscription refused';
+                    console.error(`Zotero stream subscription to ${this.options.topic} failed:`, error);
+                    this.stop();
+                    this.setStatus({ state: 'unavailable', details: error });
+                    return;
+                }
+                this.attempts = 0;
+                this.setStatus({ state: 'connected' });
+                // Changes made while the connection was down sent no event: catch up once
+                if (this.subscribedBefore) {
+                    this.options.onTopicUpdated(this.options.topic);
+                }
+                this.subscribedBefore = true;
+                break;
+
+            case 'topicUpdated':
+                if (message.topic !== this.options.topic) return;
+                this.status = { ...this.status, lastEventAt: new Date().toISOString() };
+                this.options.onTopicUpdated(message.topic, message.version);
+                break;
+
+            case 'topicRemoved':
+                if (message.topic !== this.options.topic) return;
+                this.stop();
+                this.setStatus({ state: 'unavailable', details: 'The API key lost access to this library' });
+                break;
+        }
+    }
+
+    private scheduleReconnect(reason: string) {
+        const delay = Math.min(MAX_RETRY_MS, this.retryBase * 2 ** this.attempts);
+        this.attempts++;
+        console.warn(`Zotero stream disconnected (${reason}), reconnecting in ${Math.round(delay / 1000)}s`);
+
+        this.setStatus({
+            state: 'reconnecting',
+            details: reason,
+            nextRetryAt: new Date(Date.now() + delay).toISOString(),
+        });
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.connect();
+        }, delay);
+    }
+}
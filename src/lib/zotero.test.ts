@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpClient } from '@/lib/http';
+import { ZoteroClient } from '@/lib/zotero';
+import { ZoteroCollection, ZoteroConfig } from '@/types/zotero';
+
+function collection(key: string, name: string, parentCollection?: string): ZoteroCollection {
+    return { key, data: { name, parentCollection } };
+}
+
+describe('ZoteroClient.resolveCollectionPaths', () => {
+    const collections = [
+        collection('THESIS', 'Thesis'),
+        collection('CH2', 'Chapter 2', 'THESIS'),
+        collection('FIGS', 'Figures', 'CH2'),
+        collection('OTHER', 'Reading list'),
+    ];
+
+    test('gives a nested root its full library path', () => {
+        assert.deepEqual(ZoteroClient.resolveCollectionPaths(collections, 'CH2', false), [
+            { key: 'CH2', path: 'Thesis / Chapter 2' },
+        ]);
+    });
+
+    test('prefixes descendants with the full path of a nested root', () => {
+        assert.deepEqual(ZoteroClient.resolveCollectionPaths(collections, 'CH2', true), [
+            { key: 'CH2', path: 'Thesis / Chapter 2' },
+            { key: 'FIGS', path: 'Thesis / Chapter 2 / Figures' },
+        ]);
+    });
+
+    test('stops at cyclic parent links', () => {
+        const cyclic = [collection('A', 'A', 'B'), collection('B', 'B', 'A')];
+        assert.deepEqual(ZoteroClient.resolveCollectionPaths(cyclic, 'A', false), [{ key: 'A', path: 'B / A' }]);
+    });
+
+    test('falls back to the key of an unknown collection', () => {
+        assert.deepEqual(ZoteroClient.resolveCollectionPaths(collections, 'MISSING', false), [{ key: 'MISSING', path: 'MISSING' }]);
+    });
+});
+
+describe('ZoteroClient API base', () => {
+    // Records the URLs requested
+    class RecordingHttp extends HttpClient {
+        urls: string[] = [];
+
+        async fetch(url: string): Promise<Response> {
+            this.urls.push(url);
+            return new Response(null, { status: 200 });
+        }
+    }
+
+    test('ignores a base URL sent with the config', async () => {
+        const http = new RecordingHttp();
+        const config = { userId: '', apiKey: '', collectionId: '', source: 'local', baseUrl: 'http://169.254.169.254' };
+        await new ZoteroClient(config as ZoteroConfig, http).testConnection();
+        await new ZoteroClient({ ...config, source: 'web', userId: '1' } as ZoteroConfig, http).testConnection();
+        assert.deepEqual(http.urls, [
+            'http://localhost:23119/api/users/0/items?limit=1',
+            'https://api.zotero.org/users/1/items?limit=1',
+        ]);
+    });
+
+    test('reads the local API from ZOTCRAFT_ZOTERO_LOCAL_URL', async () => {
+        const http = new RecordingHttp();
+        process.env.ZOTCRAFT_ZOTERO_LOCAL_URL = 'http://zotero-host:23119/api/';
+        try {
+            await new ZoteroClient({ userId: '', apiKey: '', collectionId: '', source: 'local' }, http).testConnection();
+        } finally {
+            delete process.env.ZOTCRAFT_ZOTERO_LOCAL_URL;
+        }
+        assert.deepEqual(http.urls, ['http://zotero-host:23119/api/users/0/items?limit=1']);
+    });
+});
@@ -1,26 +1,59 @@
-import { ZoteroConfig, ZoteroItem } from '@/types/zotero';
+import { HttpClient } from '@/lib/http';
+import { ZoteroChildContent, ZoteroCollection, ZoteroConfig, ZoteroItem, ZoteroItemsPage, ZoteroItemVersions } from '@/types/zotero';
 
 const ZOTERO_API_BASE = 'https://api.zotero.org';
+// Zotero 7 desktop serves the same API locally (Settings → Advanced → "Allow other applications...")
+export const ZOTERO_LOCAL_API_BASE = 'http://localhost:23119/api';
+
+// Set on the server only (ZOTCRAFT_ZOTERO_LOCAL_URL), e.g. when Zotero runs on another host.
+// Never taken from a request: the server would fetch, and hand back, any URL a client sent.
+function getLocalApiBase(): string {
+    return process.env.ZOTCRAFT_ZOTERO_LOCAL_URL?.trim() || ZOTERO_LOCAL_API_BASE;
+}
+const ITEM_KEY_BATCH_SIZE = 50;
+const PAGE_SIZE = 100; // Zotero API maximum
 
 export class ZoteroClient {
     private config: ZoteroConfig;
+    private apiBase: string;
+    private http: HttpClient;
 
-    constructor(config: ZoteroConfig) {
+    constructor(config: ZoteroConfig, http: HttpClient = new HttpClient()) {
         this.config = config;
+        this.http = http;
+        this.apiBase = (config.source === 'local' ? getLocalApiBase() : ZOTERO_API_BASE).replace(/\/+$/, '');
+    }
+
+    /**
+     * Whether the config has what the source needs: the local API needs no credentials
+     */
+    static isConfigured(config: ZoteroConfig): boolean {
+        return config.source === 'local' || (!!config.userId && !!config.apiKey);
     }
 
-    private getHeaders() {
-        return {
-            'Zotero-API-Key': this.config.apiKey,
-            'Zotero-API-Version': '3',
-        };
+    private isLocal(): boolean {
+        return this.config.source === 'local';
+    }
+
+    private getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = { 'Zotero-API-Version': '3' };
+        // The local API doesn't take a key
+        if (this.config.apiKey && !this.isLocal()) headers['Zotero-API-Key'] = this.config.apiKey;
+        return headers;
+    }
+
+    /**
+     * The user library; the local API serves the signed-in (or unsynced) library as user 0
+     */
+    private getUserPath(): string {
+        return `users/${this.isLocal() ? this.config.userId || '0' : this.config.userId}`;
     }
 
     async testConnection(): Promise<boolean> {
         try {
             // Fetch a single item to verify credentials and access
-            const response = await fetch(
-                `${ZOTERO_API_BASE}/users/${this.config.userId}/items?limit=1`,
+            const response = await this.http.fetch(
+                `${this.apiBase}/${this.getUserPath()}/items?limit=1`,
                 {
                     headers: this.getHeaders(),
                 }
@@ -32,31 +65,72 @@ export class ZoteroClient {
         }
     }
 
-    async getCollectionItems(limit: number = 20): Promise<ZoteroItem[]> {
+    /**
+     * Library the selected collection lives in, e.g. "users/123" or "groups/456"
+     */
+    private getLibraryPath(): string {
+        if (this.config.collectionId.startsWith('group:')) {
+            const groupId = this.config.collectionId.split(':')[1];
+            return `groups/${groupId}`;
+        }
+        return this.getUserPath();
+    }
+
+    /**
+     * Streaming API topic of the selected library, e.g. "/users/123" or "/groups/456"
+     */
+    getStreamTopic(): string {
+        return `/${this.getLibraryPath()}`;
+    }
+
+    /**
+     * Key of the selected collection, undefined when an entire group library is selected
+     */
+    getSelectedCollectionKey(): string | undefined {
+        if (this.config.collectionId.startsWith('group:')) {
+            return this.config.collectionId.split(':')[2];
+        }
+        return this.config.collectionId || undefined;
+    }
+
+    /**
+     * Client for another collection in the same library (e.g. a subcollection)
+     */
+    forCollection(collectionKey: string): ZoteroClient {
+        const collectionId = this.config.collectionId.startsWith('group:')
+            ? `group:${this.config.collectionId.split(':')[1]}:${collectionKey}`
+            : collectionKey;
+        return new ZoteroClient({ ...this.config, collectionId }, this.http);
+    }
+
+    /**
+     * Path to the selected collection's top-level items (or the whole group library)
+     */
+    private getTopItemsPath(): string {
+        const collectionKey = this.getSelectedCollectionKey();
+        return collectionKey
+            ? `${this.getLibraryPath()}/collections/${collectionKey}/items/top`
+            : `${this.getLibraryPath()}/items/top`;
+    }
+
+    /**
+     * Identifies the selected library + collection, used to remember sync progress per source
+     */
+    getSyncScope(): string {
+        const scope = this.getTopItemsPath().replace(/\/items\/top$/, '');
+        // Local libraries can hold changes the web library hasn't seen, so they keep their own progress
+        return this.isLocal() ? `local:${scope}` : scope;
+    }
+
+    /**
+     * Fetches one page of the selected collection's top items, newest modification first
+     */
+    async getCollectionItemsPage(start: number, limit: number = PAGE_SIZE): Promise<ZoteroItemsPage> {
         try {
-            // Fetch top items from the collection, sorted by modification date desc
             // We rely on the user to provide the collection ID
-            let url: string;
-
-            // Check if this is a group library selection
-            if (this.config.collectionId.startsWith('group:')) {
-                const parts = this.config.collectionId.split(':');
-                const groupId = parts[1];
-                const collectionKey = parts[2]; // May be undefined for entire library
-
-                if (collectionKey) {
-                    // Fetch from specific group collection
-                    url = `${ZOTERO_API_BASE}/groups/${groupId}/collections/${collectionKey}/items/top?limit=${limit}&sort=dateModified&direction=desc`;
-                } else {
-                    // Fetch entire group library
-                    url = `${ZOTERO_API_BASE}/groups/${groupId}/items/top?limit=${limit}&sort=dateModified&direction=desc`;
-                }
-            } else {
-                // Fetch from user library collection
-                url = `${ZOTERO_API_BASE}/users/${this.config.userId}/collections/${this.config.collectionId}/items/top?limit=${limit}&sort=dateModified&direction=desc`;
-            }
+            const url = `${this.apiBase}/${this.getTopItemsPath()}?start=${start}&limit=${limit}&sort=dateModified&direction=desc`;
 
-            const response = await fetch(url, {
+            const response = await this.http.fetch(url, {
                 headers: this.getHeaders(),
             });
 
@@ -64,18 +138,247 @@ export class ZoteroClient {
                 throw new Error(`Failed to fetch Zotero items: ${response.statusText}`);
             }
 
-            const items = await response.json();
-            return items as ZoteroItem[];
+            const items: ZoteroItem[] = await response.json();
+            const totalResults = parseInt(response.headers.get('Total-Results') || '', 10);
+            const libraryVersion = parseInt(response.headers.get('Last-Modified-Version') || '', 10);
+
+            return {
+                items,
+                totalResults: isNaN(totalResults) ? start + items.length : totalResults,
+                libraryVersion: isNaN(libraryVersion) ? 0 : libraryVersion,
+            };
         } catch (error) {
             console.error('Error fetching Zotero items:', error);
             throw error;
         }
     }
 
+    /**
+     * Fetches up to `limit` top items, paging through the API's 100-item maximum
+     */
+    async getCollectionItems(limit: number = 20): Promise<ZoteroItem[]> {
+        const items: ZoteroItem[] = [];
+
+        while (items.length < limit) {
+            const page = await this.getCollectionItemsPage(items.length, Math.min(PAGE_SIZE, limit - items.length));
+            items.push(...page.items);
+
+            if (page.items.length === 0 || items.length >= page.totalResults) break;
+        }
+
+        return items;
+    }
+
+    /**
+     * Fetches every top item in the selected collection, page by page.
+     * `onProgress` is called after each page with the fetched and total counts.
+     */
+    async getAllCollectionItems(
+        onProgress?: (fetched: number, total: number) => void
+    ): Promise<{ items: ZoteroItem[]; libraryVersion: number }> {
+        const items: ZoteroItem[] = [];
+        let libraryVersion = 0;
+
+        while (true) {
+            const page = await this.getCollectionItemsPage(items.length);
+            items.push(...page.items);
+            // Remember the version from the first page; anything changed while paging is picked up next run
+            if (!libraryVersion) libraryVersion = page.libraryVersion;
+
+            onProgress?.(items.length, page.totalResults);
+
+            if (page.items.length === 0 || items.length >= page.totalResults) break;
+        }
+
+        return { items, libraryVersion };
+    }
+
+    /**
+     * Lists the keys and versions of top items changed since the given library version.
+     * `format=versions` returns every match in one response, so nothing is cut off by paging.
+     */
+    async getChangedItemVersions(since: number): Promise<ZoteroItemVersions> {
+        try {
+            const url = `${this.apiBase}/${this.getTopItemsPath()}?since=${since}&format=versions`;
+
+            const response = await this.http.fetch(url, {
+                headers: this.getHeaders(),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Failed to fetch Zotero item versions: ${response.statusText}`);
+            }
+
+            const versions: Record<string, number> = await response.json();
+            const libraryVersion = parseInt(response.headers.get('Last-Modified-Version') || '', 10);
+
+            return {
+                versions,
+                libraryVersion: isNaN(libraryVersion) ? since : libraryVersion,
+            };
+        } catch (error) {
+            console.error('Error fetching Zotero item versions:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Fetches full items by key, batched to the API's 50-key limit
+     */
+    async getItemsByKey(keys: string[]): Promise<ZoteroItem[]> {
+        const items: ZoteroItem[] = [];
+
+        for (let i = 0; i < keys.length; i += ITEM_KEY_BATCH_SIZE) {
+            const batch = keys.slice(i, i + ITEM_KEY_BATCH_SIZE);
+            const url = `${this.apiBase}/${this.getLibraryPath()}/items?itemKey=${batch.join(',')}&limit=${ITEM_KEY_BATCH_SIZE}`;
+
+            try {
+                const response = await this.http.fetch(url, {
+                    headers: this.getHeaders(),
+                });
+
+                if (!response.ok) {
+                    throw new Error(`Failed to fetch Zotero items: ${response.statusText}`);
+                }
+
+                items.push(...(await response.json()));
+            } catch (error) {
+                console.error('Error fetching Zotero items by key:', error);
+                throw error;
+            }
+        }
+
+        return items;
+    }
+
+    /**
+     * Follows `start` paging until every result of an items request is fetched
+     */
+    private async getAllPages(path: string): Promise<ZoteroItem[]> {
+        const items: ZoteroItem[] = [];
+        const separator = path.includes('?') ? '&' : '?';
+
+        while (true) {
+            const response = await this.http.fetch(
+                `${this.apiBase}/${path}${separator}start=${items.length}&limit=${PAGE_SIZE}`,
+                {
+                    headers: this.getHeaders(),
+                }
+            );
+
+            if (!response.ok) {
+                throw new Error(`Failed to fetch Zotero items: ${response.statusText}`);
+            }
+
+            const page: ZoteroItem[] = await response.json();
+            items.push(...page);
+
+            const total = parseInt(response.headers.get('Total-Results') || '', 10);
+            if (page.length === 0 || isNaN(total) || items.length >= total) break;
+        }
+
+        return items;
+    }
+
+    /**
+     * Zotero's own rendering of an item: a BibTeX entry for `bibtex`, otherwise the
+     * bibliography entry (HTML) in the given CSL style, e.g. "apa"
+     */
+    async getFormattedCitation(itemKey: string, style: string): Promise<string> {
+        const include = style === 'bibtex' ? 'include=bibtex' : `include=bib&style=${encodeURIComponent(style)}`;
+        const url = `${this.apiBase}/${this.getLibraryPath()}/items/${itemKey}?${include}`;
+
+        try {
+            const response = await this.http.fetch(url, {
+                headers: this.getHeaders(),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Failed to fetch Zotero citation: ${response.statusText}`);
+            }
+
+            const data = await response.json();
+            const citation = style === 'bibtex' ? data.bibtex : data.bib;
+            if (typeof citation !== 'string') {
+                throw new Error('Zotero returned no citation');
+            }
+            return citation.trim();
+        } catch (error) {
+            console.error('Error fetching Zotero citation:', error);
+            throw error;
+        }
+    }
+
+    async getItemChildren(itemKey: string): Promise<ZoteroItem[]> {
+        try {
+            return await this.getAllPages(`${this.getLibraryPath()}/items/${itemKey}/children`);
+        } catch (error) {
+            console.error('Error fetching Zotero item children:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Child notes of an item, plus the annotations on its attachments (PDF highlights live
+     * one level down, under the attachment rather than the item itself)
+     */
+    async getChildContent(itemKey: string): Promise<ZoteroChildContent> {
+        const children = await this.getItemChildren(itemKey);
+        const notes = children.filter((child) => child.data.itemType === 'note');
+        const annotations: ZoteroItem[] = [];
+
+        for (const attachment of children.filter((child) => child.data.itemType === 'attachment')) {
+            const attachmentChildren = await this.getItemChildren(attachment.key);
+            annotations.push(...attachmentChildren.filter((child) => child.data.itemType === 'annotation'));
+        }
+
+        // Sort index encodes page and position, so this gives reading order
+        annotations.sort((a, b) => (a.data.annotationSortIndex || '').localeCompare(b.data.annotationSortIndex || ''));
+
+        return { notes, annotations };
+    }
+
+    /**
+     * Top-level items whose notes or annotations changed since the given library version.
+     * Adding a highlight does not bump the parent item's version, so these are found separately.
+     * Returns parent key -> lowest changed child version.
+     */
+    async getChangedChildParents(since: number): Promise<Map<string, number>> {
+        try {
+            const itemType = encodeURIComponent('note || annotation');
+            const changed = await this.getAllPages(`${this.getLibraryPath()}/items?since=${since}&itemType=${itemType}`);
+
+            // Annotations hang off attachments; look those up to reach the top-level item
+            const attachmentKeys = [...new Set(
+                changed
+                    .filter((child) => child.data.itemType === 'annotation' && child.data.parentItem)
+                    .map((child) => child.data.parentItem as string)
+            )];
+            const attachmentParents = new Map(
+                (await this.getItemsByKey(attachmentKeys)).map((attachment) => [attachment.key, attachment.data.parentItem])
+            );
+
+            const parents = new Map<string, number>();
+            for (const child of changed) {
+                const parentKey = child.data.itemType === 'annotation'
+                    ? attachmentParents.get(child.data.parentItem || '')
+                    : child.data.parentItem; // Standalone notes have no parent
+                if (!parentKey) continue;
+
+                parents.set(parentKey, Math.min(parents.get(parentKey) ?? Infinity, child.version));
+            }
+
+            return parents;
+        } catch (error) {
+            console.error('Error fetching changed Zotero notes and annotations:', error);
+            throw error;
+        }
+    }
+
     async getCollections(): Promise<import('@/types/zotero').ZoteroCollection[]> {
         try {
-            const response = await fetch(
-                `${ZOTERO_API_BASE}/users/${this.config.userId}/collections`,
+            const response = await this.http.fetch(
+                `${this.apiBase}/${this.getUserPath()}/collections`,
                 {
                     headers: this.getHeaders(),
                 }
@@ -92,11 +395,44 @@ export class ZoteroClient {
         }
     }
 
+    /**
+     * Fetches every collection in the selected library (user or group), paging past the 100 limit
+     */
+    async getLibraryCollections(): Promise<ZoteroCollection[]> {
+        const collections: ZoteroCollection[] = [];
+
+        try {
+            while (true) {
+                const response = await this.http.fetch(
+                    `${this.apiBase}/${this.getLibraryPath()}/collections?start=${collections.length}&limit=${PAGE_SIZE}`,
+                    {
+                        headers: this.getHeaders(),
+                    }
+                );
+
+                if (!response.ok) {
+                    throw new Error(`Failed to fetch Zotero collections: ${response.statusText}`);
+                }
+
+                const page: ZoteroCollection[] = await response.json();
+                collections.push(...page);
+
+                const total = parseInt(response.headers.get('Total-Results') || '', 10);
+                if (page.length === 0 || isNaN(total) || collections.length >= total) break;
+            }
+
+            return collections;
+        } catch (error) {
+            console.error('Error fetching Zotero library collections:', error);
+            throw error;
+        }
+    }
+
     async getGroups(): Promise<Array<{ groupId: string; groupName: string; collections: import('@/types/zotero').ZoteroCollection[] }>> {
         try {
             // Fetch user's groups
-            const groupsResponse = await fetch(
-                `${ZOTERO_API_BASE}/users/${this.config.userId}/groups`,
+            const groupsResponse = await this.http.fetch(
+                `${this.apiBase}/${this.getUserPath()}/groups`,
                 {
                     headers: this.getHeaders(),
                 }
@@ -112,8 +448,8 @@ export class ZoteroClient {
             const groupsWithCollections = await Promise.all(
                 groups.map(async (group: any) => {
                     try {
-                        const collectionsResponse = await fetch(
-                            `${ZOTERO_API_BASE}/groups/${group.id}/collections`,
+                        const collectionsResponse = await this.http.fetch(
+                            `${this.apiBase}/groups/${group.id}/collections`,
                             {
                                 headers: this.getHeaders(),
                             }
@@ -146,6 +482,50 @@ export class ZoteroClient {
         }
     }
 
+    /**
+     * Resolves the full "Top / Parent / Child" library path of a collection and, when
+     * `recursive` is set, of all its descendants. The root comes first, then descendants
+     * breadth-first.
+     */
+    static resolveCollectionPaths(
+        collections: ZoteroCollection[],
+        rootKey: string,
+        recursive: boolean
+    ): Array<{ key: string; path: string }> {
+        const byKey = new Map(collections.map((c) => [c.key, c]));
+        // Walk up to the top of the library; `visited` guards against malformed (cyclic) parent links
+        const names: string[] = [];
+        const visited = new Set<string>();
+        let current = byKey.get(rootKey);
+        while (current && !visited.has(current.key)) {
+            visited.add(current.key);
+            names.unshift(current.data.name);
+            const parent = current.data.parentCollection;
+            current = parent ? byKey.get(parent) : undefined;
+        }
+        const result = [{ key: rootKey, path: names.join(' / ') || rootKey }];
+        if (!recursive) return result;
+
+        const childrenOf = new Map<string, ZoteroCollection[]>();
+        for (const collection of collections) {
+            const parent = collection.data.parentCollection;
+            if (!parent) continue;
+            childrenOf.set(parent, [...(childrenOf.get(parent) || []), collection]);
+        }
+
+        // Breadth-first; `seen` guards against malformed (cyclic) parent links
+        const seen = new Set([rootKey]);
+        for (let i = 0; i < result.length; i++) {
+            for (const child of childrenOf.get(result[i].key) || []) {
+                if (seen.has(child.key)) continue;
+                seen.add(child.key);
+                result.push({ key: child.key, path: `${result[i].path} / ${child.data.name}` });
+            }
+        }
+
+        return result;
+    }
+
     /**
      * Helper to format authors from Zotero creators array
      */
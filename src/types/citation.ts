@@ -0,0 +1,6 @@
+export type CitationStyle = 'none' | 'apa' | 'mla' | 'chicago' | 'bibtex';
+
+export interface CitationSettings {
+    style: CitationStyle;
+    source: 'local' | 'zotero'; // Format here, or fetch Zotero's own bibliography/BibTeX output
+}
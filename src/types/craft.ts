@@ -27,6 +27,43 @@ export interface CraftCollection {
     documentId: string;
 }
 
+export interface CraftProperty {
+    name: string;      // Display name, e.g. "Reading status"
+    key: string;       // Key used in item properties
+    type: string;      // text | richText | number | url | date | select | multiSelect | ...
+    options?: string[]; // For select and multiSelect
+}
+
+// A property the sync writes to, and the Craft types that can hold its value
+export interface ExpectedProperty {
+    name: string;
+    type: string;       // Type used when the property is created
+    accepts: string[];  // Types the sync can write to
+    options?: string[]; // Initial options when created as a select
+    optional?: boolean; // Recommended, but the sync works without it
+}
+
+export interface SchemaIssue {
+    property: string;
+    problem: 'missing' | 'wrongType';
+    expectedType: string;
+    actualType?: string;
+    similar?: string; // Existing property whose name differs only in case
+    optional?: boolean;
+}
+
+export interface SchemaCheckResult {
+    ok: boolean; // No required property is missing or has the wrong type
+    issues: SchemaIssue[];
+    error?: string; // The schema couldn't be fetched
+}
+
+export interface CraftCollectionItem {
+    id: string;
+    title?: string;
+    properties?: Record<string, unknown>;
+}
+
 export interface CraftResponse<T> {
     items: T[];
 }
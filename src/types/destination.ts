@@ -0,0 +1,47 @@
+import { CraftCollectionItem, CraftProperty } from '@/types/craft';
+
+export type DestinationType = 'craft' | 'markdown';
+
+export interface DestinationConfig {
+    type: DestinationType;
+    folder?: string; // Markdown: folder on the server (e.g. inside an Obsidian vault) the notes are written to
+}
+
+export const DEFAULT_DESTINATION_CONFIG: DestinationConfig = {
+    type: 'craft',
+};
+
+// A new note: its title, mapped properties (keyed by property key) and body
+export interface DestinationNote {
+    title: string;
+    properties: Record<string, unknown>;
+    markdownBody: string;
+    tags: string[];
+    citationKey?: string;
+}
+
+/**
+ * Where synced notes are written. The sync pipeline only talks to this interface, so
+ * matching, mapping and updates work the same for every destination.
+ */
+export interface Destination {
+    readonly label: string; // Shown in log messages, e.g. "Craft"
+    readonly scope: string; // Keeps the sync state of each target (Craft collection or document, folder) apart
+
+    // Properties items can carry; empty if the destination has no schema
+    getProperties(): Promise<CraftProperty[]>;
+    // Existing items with their properties, for duplicate detection; null if they can't be listed
+    getItems(): Promise<CraftCollectionItem[] | null>;
+    // Adds options to a select property; returns its full option list
+    addSelectOptions(propertyKey: string, options: string[]): Promise<string[]>;
+
+    // Returns the new item's ID. May throw IncompleteItemError (see craft.ts) if the item
+    // was created without its body.
+    createItem(note: DestinationNote): Promise<string>;
+    // Writes the body of an item created without one; leaves an item that already has a body
+    // alone. Returns whether it wrote.
+    repairBody(id: string, markdownBody: string): Promise<boolean>;
+    updateItem(id: string, title: string, properties: Record<string, unknown>): Promise<void>;
+    updateMetadataHeader(id: string, header: Record<string, string>): Promise<void>;
+    appendToSection(id: string, heading: string, markdown: string): Promise<void>;
+}
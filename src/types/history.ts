@@ -0,0 +1,27 @@
+import { ItemEvent, RunFinishedEvent, RunStartedEvent, SyncConfig, SyncMessageEvent, SyncSummary } from '@/types/sync';
+
+// What started a run
+export type RunTrigger = 'manual' | 'auto' | 'push' | 'cli';
+
+// Entry in the run index, listed by the history view
+export interface RunSummary {
+    id: string;
+    trigger: RunTrigger;
+    dryRun: boolean;
+    source: RunStartedEvent['source'];
+    startedAt: string;
+    finishedAt?: string; // Unset while the run is going, or if its process stopped during it
+    outcome?: RunFinishedEvent['outcome'] | 'interrupted'; // Interrupted: its process stopped before it finished
+    pid?: number; // Process running it, to tell a run in progress from one left behind
+    elapsedMs?: number;
+    summary?: SyncSummary;
+}
+
+// Outcome of one item, without the dry-run payload
+export type RunItemOutcome = Pick<ItemEvent, 'type' | 'itemKey' | 'title' | 'details' | 'craftId' | 'errorCategory' | 'durationMs'>;
+
+export interface RunRecord extends RunSummary {
+    config: SyncConfig; // Settings the run used, with API keys removed
+    items: RunItemOutcome[];
+    messages: Array<Pick<SyncMessageEvent, 'type' | 'message' | 'errorCategory' | 'at'>>; // Warnings and errors
+}
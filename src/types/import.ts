@@ -0,0 +1,20 @@
+import { ZoteroItem } from '@/types/zotero';
+
+export type ImportFormat = 'bibtex' | 'ris' | 'csl-json';
+
+// A reference file uploaded from the browser
+export interface ImportFile {
+    name: string;
+    content: string;
+}
+
+export interface ImportError {
+    entry: string; // Citation key, or the entry's position when it has none
+    message: string;
+}
+
+export interface ImportResult {
+    format: ImportFormat;
+    items: ZoteroItem[];
+    errors: ImportError[];
+}
@@ -0,0 +1,30 @@
+import { RunTrigger } from '@/types/history';
+import { ImportFile } from '@/types/import';
+import { RunFinishedEvent, SyncEvent, SyncProgress } from '@/types/sync';
+
+// What a sync job is asked to do, besides the config it runs with
+export interface JobRequest {
+    maxItems?: number;
+    backfill?: boolean; // Page through the entire collection
+    dryRun?: boolean; // Only report what would be written
+    itemKeys?: string[]; // Items approved in a preview
+    files?: ImportFile[]; // Reference files to import instead of reading Zotero
+    restart?: boolean; // Don't resume an interrupted run, start over
+}
+
+export interface SyncJobInfo {
+    id: string; // Also the run's ID in the run history
+    state: 'running' | 'cancelling' | 'finished';
+    trigger: RunTrigger;
+    target: string; // What the job writes to, see getSyncTarget
+    startedAt: string;
+    request: JobRequest;
+    eventCount: number; // Events so far; poll with ?after=<eventCount> for the next ones
+    progress?: SyncProgress;
+    finished?: RunFinishedEvent; // Set once the job is done
+}
+
+// Poll response: the job and the events after the requested position
+export interface SyncJobPoll extends SyncJobInfo {
+    events: SyncEvent[];
+}
@@ -0,0 +1,17 @@
+// How a Zotero value is shaped before it is written to a Craft property
+export type FieldTransform =
+    | 'none'
+    | 'join'        // List -> "a, b, c"
+    | 'firstAuthor' // List -> first entry only
+    | 'year'        // Date -> "2021"
+    | 'lowercase'
+    | 'hashtags'    // Tags -> "#tag_name"
+    | 'constant';   // Ignore the item, always write `value`
+
+export interface FieldMapping {
+    source: string;      // Zotero field, e.g. "publicationTitle", or a derived one like "collectionPath"
+    target: string;      // Craft property display name
+    transform: FieldTransform;
+    value?: string;      // Used by the "constant" transform
+    aliases?: Record<string, string>; // Zotero value -> Craft select option, e.g. "To Read" -> "Waiting"
+}
@@ -0,0 +1,145 @@
+import { ZoteroConfig } from '@/types/zotero';
+import { CraftConfig } from '@/types/craft';
+import { FieldMapping } from '@/types/mapping';
+import { NoteTemplates } from '@/types/template';
+import { CitationSettings } from '@/types/citation';
+import { DestinationConfig } from '@/types/destination';
+
+export interface SyncSettings {
+    updateExisting: boolean; // Patch Craft items whose Zotero metadata changed since the last sync
+    includeSubcollections: boolean; // Also sync every descendant of the selected Zotero collection
+    importChildren: boolean; // Render child notes and PDF annotations into the Craft note
+    createMissingOptions: boolean; // Add values that aren't select options yet to the collection schema
+    optionProperties: string[]; // Select properties that may get new options, by display name
+    maxNewOptions: number; // Upper limit of options added per run
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+    updateExisting: true,
+    includeSubcollections: false,
+    importChildren: true,
+    createMissingOptions: false,
+    optionProperties: ['Tags', 'Publication type'],
+    maxNewOptions: 20,
+};
+
+export interface SyncConfig {
+    zotero: ZoteroConfig;
+    craft: CraftConfig;
+    destination?: DestinationConfig; // Where notes are written; defaults to Craft
+    sync?: SyncSettings;
+    mapping?: FieldMapping[]; // Zotero field -> Craft property; defaults to DEFAULT_FIELD_MAPPINGS
+    templates?: NoteTemplates; // Note body templates; defaults to DEFAULT_NOTE_TEMPLATES
+    citation?: CitationSettings; // Defaults to DEFAULT_CITATION_SETTINGS
+}
+
+// What a dry run would send to Craft for one item
+export interface SyncPreview {
+    properties: Record<string, unknown>; // Collection item properties, keyed by property key
+    markdownBody?: string; // Body of a new note, or the highlights/notes appended to an existing one
+    header?: Record<string, string>; // Metadata header lines patched on an existing note
+    craftId?: string; // Existing item that would be updated
+}
+
+// Version of the sync event format streamed by /api/sync-now and printed by `npm run sync -- --ndjson`.
+// Bump it when a change would break existing readers of the stream.
+export const SYNC_EVENT_VERSION = 1;
+
+// Broad cause of a failure, for deciding whether a retry could help
+export type SyncErrorCategory =
+    | 'config' // Missing or invalid settings, e.g. a broken template
+    | 'auth' // API key rejected (401/403)
+    | 'not-found' // Item, collection or note no longer exists
+    | 'rate-limit' // 429 from Zotero or Craft
+    | 'server' // 5xx from Zotero or Craft
+    | 'network' // No response at all
+    | 'conflict' // Another sync is already running
+    | 'invalid-input' // An entry of an imported file that can't be read
+    | 'unknown';
+
+export interface SyncProgress {
+    done: number;
+    total: number;
+}
+
+interface SyncEventBase {
+    v: typeof SYNC_EVENT_VERSION;
+    at: string; // ISO timestamp
+}
+
+export interface RunStartedEvent extends SyncEventBase {
+    type: 'run-started';
+    runId: string; // The run's entry in the run history
+    dryRun: boolean;
+    source: 'zotero' | 'file';
+}
+
+export interface ItemEvent extends SyncEventBase {
+    type: 'item-created' | 'item-updated' | 'item-skipped' | 'item-failed';
+    itemKey: string; // Zotero key, or the generated key of an imported entry
+    title: string;
+    details?: string;
+    durationMs: number;
+    craftId?: string; // Destination item that was created, updated or matched
+    progress: SyncProgress;
+    dryRun?: boolean; // Reported by a dry run: nothing was written
+    preview?: SyncPreview; // Set on dry-run created/updated events
+    errorCategory?: SyncErrorCategory; // Set on item-failed
+}
+
+// Run-level messages; an error stops the run unless it only concerns part of the input
+export interface SyncMessageEvent extends SyncEventBase {
+    type: 'info' | 'warning' | 'error';
+    message: string;
+    progress?: SyncProgress; // Fetch progress of a backfill
+    errorCategory?: SyncErrorCategory; // Set on error
+}
+
+export interface SyncSummary {
+    created: number;
+    updated: number;
+    skipped: number;
+    failed: number; // Items
+    warnings: number;
+    errors: number; // Run-level errors
+}
+
+// Always the last event of a run
+export interface RunFinishedEvent extends SyncEventBase {
+    type: 'run-finished';
+    runId: string;
+    outcome: 'completed' | 'failed' | 'aborted'; // "failed" when an error stopped the run early
+    dryRun: boolean;
+    elapsedMs: number;
+    summary: SyncSummary;
+}
+
+export type SyncEvent = RunStartedEvent | ItemEvent | SyncMessageEvent | RunFinishedEvent;
+
+// An event before runSync stamps it with the version and time
+export type SyncEventInput = SyncEvent extends infer E ? (E extends SyncEvent ? Omit<E, 'v' | 'at'> : never) : never;
+
+export interface ScheduleConfig {
+    enabled: boolean;
+    intervalMinutes: number;
+    push?: boolean; // Also sync soon after Zotero's streaming API reports a library change
+}
+
+// Connection to Zotero's streaming API for push-triggered syncs
+export interface PushStatus {
+    state: 'connecting' | 'connected' | 'reconnecting' | 'unavailable';
+    topic?: string; // Library listened to, e.g. "/users/123"
+    details?: string; // Why it is reconnecting or unavailable
+    lastEventAt?: string; // Last change reported for the library
+    nextRetryAt?: string;
+}
+
+export interface ScheduleStatus {
+    schedule: ScheduleConfig;
+    running: boolean;
+    nextRunAt?: string;
+    lastRunAt?: string;
+    lastRunStatus?: 'success' | 'error' | 'skipped';
+    lastRunDetails?: string;
+    push?: PushStatus; // Unset when push sync is off
+}
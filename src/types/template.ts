@@ -0,0 +1,5 @@
+// Markdown templates for the body of new Craft notes
+export interface NoteTemplates {
+    default: string;
+    byItemType?: Record<string, string>; // Zotero item type, e.g. "book" -> template used instead of the default
+}
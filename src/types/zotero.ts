@@ -2,6 +2,7 @@ export interface ZoteroConfig {
   userId: string;
   apiKey: string;
   collectionId: string;
+  source?: 'web' | 'local'; // Web API (default) or the Zotero desktop's local API
 }
 
 export interface ZoteroItemData {
@@ -17,11 +18,34 @@ export interface ZoteroItemData {
   }>;
   date?: string;
   dateAdded?: string;
+  dateModified?: string;
   publicationTitle?: string; // Journal
+  bookTitle?: string;
+  publisher?: string;
+  place?: string;
+  university?: string; // Thesis
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  edition?: string;
+  series?: string;
+  ISBN?: string;
+  ISSN?: string;
+  language?: string;
   url?: string;
   DOI?: string;
   abstractNote?: string;
   tags: Array<{ tag: string }>;
+  extra?: string;
+  citationKey?: string; // Zotero 7 native citation key
+  parentItem?: string; // Set on child items (notes, attachments, annotations)
+  note?: string; // HTML body of a note
+  annotationType?: string; // highlight | underline | note | image | ink
+  annotationText?: string;
+  annotationComment?: string;
+  annotationColor?: string; // Hex, e.g. #ffd400
+  annotationPageLabel?: string;
+  annotationSortIndex?: string;
 }
 
 export interface ZoteroCollection {
@@ -43,3 +67,19 @@ export interface ZoteroItem {
     parsedDate?: string;
   };
 }
+
+export interface ZoteroItemVersions {
+  versions: Record<string, number>; // Item key -> item version
+  libraryVersion: number; // Last-Modified-Version of the library
+}
+
+export interface ZoteroItemsPage {
+  items: ZoteroItem[];
+  totalResults: number; // Total-Results header
+  libraryVersion: number; // Last-Modified-Version header
+}
+
+export interface ZoteroChildContent {
+  notes: ZoteroItem[];
+  annotations: ZoteroItem[]; // Gathered from the item's attachments, in reading order
+}